@@ -1,112 +1,1058 @@
+import fs from 'node:fs/promises'
 import path from 'node:path'
 import fg from 'fast-glob'
 
-type EntryInternal = Awaited<ReturnType<typeof fg>>[number]
 import {
+	type CompilerOptions,
 	type Expression,
 	ModuleKind,
 	Node,
 	Project,
+	type ProjectOptions,
 	ScriptTarget,
+	type SourceFile,
 	SyntaxKind,
 	ts
 } from 'ts-morph'
-import type { Options } from './options.js'
-import { findPackageJsonFiles, getDependencies } from './utils.js'
+import {
+	createFileHasher,
+	defaultCacheLocation,
+	getCacheKey,
+	getLocalDependencies,
+	hashFileOptions,
+	isUnchanged,
+	loadCache,
+	saveCache,
+	updateCacheEntry
+} from './cache.js'
+import {
+	getFileOptions,
+	type ResolvedOverride,
+	resolveOptions,
+	resolveOverrides
+} from './config.js'
+import {
+	findChangedDeclarations,
+	getDeclarationOutput
+} from './declarations.js'
+import { colorizePatch, createFilePatch } from './diff.js'
+import { getExportedFunctions } from './exported-functions.js'
+import {
+	addObjectTypes,
+	createPendingObjectTypes,
+	extractObjectType,
+	extractTypeAlias
+} from './extract-object-types.js'
+import {
+	getChangedLines,
+	getFileChangedLines,
+	getGitFiles,
+	getUnstagedFiles,
+	hasGitSelection,
+	type LineRange,
+	overlapsChangedLines
+} from './git.js'
+import {
+	addTypeImports,
+	collectMissingTypeImports,
+	type PendingImports,
+	rewriteImportTypes
+} from './imports.js'
+import type { ComplexTypePolicy, Options } from './options.js'
+import {
+	createJournalFile,
+	createRunJournal,
+	type RunJournal
+} from './journal.js'
+import type { Logger } from './logger.js'
+import { getCommonDirectory, readStdin, resolveInputPaths } from './paths.js'
+import {
+	getComplexityBudgetViolation,
+	hasComplexityBudget
+} from './type-complexity.js'
+import { isTypedFunctionExpression } from './typed-function-expressions.js'
+import {
+	findPackageJsonFiles,
+	findRepoRoot,
+	getDependencies,
+	type AnnotatableFunction,
+	isAnnotatableFunction,
+	typeFormatFlags
+} from './utils.js'
+import {
+	findBreakingFunctions,
+	getErrorMessages,
+	getNewErrors
+} from './verify.js'
+import { watchFiles } from './watch.js'
+import { processFilesInWorkers } from './workers.js'
+
+/**
+ * A return type that was added, or would be added, to a function.
+ */
+export type Annotation = {
+	filePath: string
+	line: number
+	column: number
+	name: string
+	returnType: string
+}
+
+/**
+ * A function whose inferred return type is over the complexity budget, with
+ * the policy that was applied to it. Return types that cannot be extracted
+ * are skipped instead.
+ */
+export type ComplexReturnType = Annotation & {
+	reason: string
+	policy: ComplexTypePolicy
+}
+
+/**
+ * A return type that was rolled back in verify mode, because it caused new
+ * compiler errors, or with `ensureStableDeclarations`, because it changed the
+ * emitted declarations.
+ */
+export type RolledBackReturnType = Annotation & {
+	reason: string
+}
+
+/**
+ * A function that was left without a return type, with the reason. The return
+ * type is known when it was inferred before the function was skipped.
+ */
+export type SkippedFunction = Omit<Annotation, 'returnType'> & {
+	returnType: string | undefined
+	reason: string
+}
+
+/**
+ * The return types added to a source file, and the functions that were left
+ * without one.
+ */
+export type SourceFileAnnotations = {
+	annotations: Annotation[]
+	complexReturnTypes: ComplexReturnType[]
+	rolledBackReturnTypes: RolledBackReturnType[]
+	/** The functions that were left without a return type, including the rolled back ones. */
+	skippedFunctions: SkippedFunction[]
+}
+
+/**
+ * What happened to a file in a run:
+ * - `modified`: return types were added and the file was saved
+ * - `wouldModify`: return types are missing, but the file was not saved in dry run or check mode
+ * - `unchanged`: no return types were missing
+ * - `cached`: the file was skipped, since it needed no changes in an earlier run
+ * - `failed`: the file could not be processed
+ */
+export type FileStatus =
+	| 'modified'
+	| 'wouldModify'
+	| 'unchanged'
+	| 'cached'
+	| 'failed'
+
+export type ProcessFileResult = SourceFileAnnotations & {
+	message: string
+	status: Exclude<FileStatus, 'cached' | 'failed'>
+	/** The project files the file depends on, collected when caching. */
+	dependencies: string[]
+	originalText: string
+	updatedText: string
+}
+
+/**
+ * The result of processing a single file, or the error it failed with.
+ */
+export type FileOutcome = { file: string; durationMs: number } & (
+	| { result: ProcessFileResult }
+	| { error: string }
+)
+
+/**
+ * The outcome of a file in a run.
+ */
+export type FileResult = {
+	filePath: string
+	status: FileStatus
+	/** The return types that were added, or would be added. */
+	annotations: Annotation[]
+	skippedFunctions: SkippedFunction[]
+	error: string | undefined
+	/** How long processing the file took, or 0 if it was not processed. */
+	durationMs: number
+}
+
+/**
+ * The outcome of a run, in the order the files were found.
+ */
+export type RunResult = {
+	files: FileResult[]
+	errors: string[]
+	/** The id of the journal of the run, if it saved files, which can be undone with `undoRun`. */
+	runId: string | undefined
+	/** The exit code for the CLI: 1 after errors, `checkFailedExitCode` when check mode finds missing return types, and 0 otherwise. */
+	exitCode: number
+	/** When the run started, in milliseconds since the epoch. */
+	startTime: number
+	durationMs: number
+}
+
+/**
+ * What is done with a function before its return type is inferred:
+ * - `annotate`: its return type is inferred
+ * - `keep`: it already has a return type, which is kept
+ * - `skip`: it is left as it is, for the given reason
+ */
+type FunctionDecision =
+	| { action: 'annotate' }
+	| { action: 'keep' }
+	| { action: 'skip'; reason: string }
+
+/**
+ * Where a function starts, as an offset and as a line and column.
+ */
+type FunctionPosition = { start: number; line: number; column: number }
+
+/**
+ * The head of a function, from its start to its body, where the cursor of an
+ * editor offers to add its return type.
+ */
+export type FunctionHead = { start: number; end: number }
+
+/**
+ * The compiler options used for type resolution when no tsconfig is given.
+ */
+export const defaultCompilerOptions: CompilerOptions = {
+	allowSyntheticDefaultImports: true,
+	esModuleInterop: true,
+	module: ModuleKind.ESNext,
+	target: ScriptTarget.ESNext,
+	strict: true,
+	noUncheckedIndexedAccess: true,
+	moduleResolution: ts.ModuleResolutionKind.NodeNext
+}
+
+/**
+ * Exit code used in check mode when functions are missing return types, to
+ * tell it apart from errors, which exit with 1.
+ */
+export const checkFailedExitCode = 2
 
 /**
  * Processes TypeScript files in the current directory, adding explicit return types to functions where needed.
- * @param options - The options object.
+ * The process is never exited, so that the result can be handled by the caller.
+ * @param userOptions - The options object. Missing options are read from the config file or fall back to the defaults.
+ * @returns A promise that resolves to the outcome of the run, after watching stops in watch mode.
  */
-export async function addFunctionReturnTypes(options: Options): Promise<void> {
+export async function addFunctionReturnTypes(
+	userOptions: Partial<Options> = {}
+): Promise<RunResult> {
 	const startTime = Date.now()
-	console.info('Starting process to analyze TypeScript files')
-	const pathToProcess = path.resolve(options.path)
+	const options = await resolveOptions(userOptions)
+	const { logger } = options
+	logger.info('Starting process to analyze TypeScript files')
+
+	if (options.stdin) {
+		// The code read from stdin is the only file of the run, and is never saved
+		// concurrency, cache, cacheLocation and dryRun have no effect, since the code is annotated in this thread and not cached
+		const conflictingOptions = [
+			userOptions.path !== undefined && 'path',
+			options.filesFrom !== undefined && 'filesFrom',
+			options.watch && 'watch',
+			options.diff && 'diff',
+			options.outputPatch !== undefined && 'outputPatch',
+			options.since !== undefined && 'since',
+			options.staged && 'staged',
+			options.changed && 'changed',
+			options.changedLinesOnly && 'changedLinesOnly'
+		].filter(Boolean)
+		if (conflictingOptions.length > 0) {
+			throw new Error(
+				`The stdin option cannot be combined with these options: ${conflictingOptions.join(', ')}`
+			)
+		}
+
+		return processStdin(options, startTime)
+	}
+
+	const inputPaths = await resolveInputPaths(
+		userOptions.path,
+		options.filesFrom
+	)
+
+	// Repository lookups, patches and watching start from the directory that contains all paths
+	const inputDirectories = await Promise.all(
+		inputPaths.map(async (inputPath): Promise<string> => {
+			const stats = await fs.stat(inputPath).catch((): undefined => undefined)
+			return stats?.isFile() ? path.dirname(inputPath) : inputPath
+		})
+	)
+	const pathToProcess = getCommonDirectory(inputDirectories)
+
+	logger.info(`Using directory: "${pathToProcess}"`)
+
+	if (options.changedLinesOnly && !hasGitSelection(options)) {
+		throw new Error(
+			'The changedLinesOnly option requires one of the since, staged or changed options'
+		)
+	}
+
+	// The files git reports as changed are looked up from the repository root
+	const gitRoot = hasGitSelection(options)
+		? await findRepoRoot(pathToProcess, logger)
+		: undefined
+	const getChangedLinesOfFiles = async (): Promise<
+		Map<string, LineRange[]> | undefined
+	> =>
+		gitRoot && options.changedLinesOnly
+			? getChangedLines(gitRoot, options)
+			: undefined
+	const getFiles = async (): Promise<string[]> => {
+		const files = await getAllTsAndTsxFiles(inputPaths, options)
+		if (!gitRoot) {
+			return files
+		}
+
+		const gitFiles = await getGitFiles(gitRoot, options)
+		return files.filter((file): boolean => gitFiles.has(file))
+	}
+
+	const allFiles = await getFiles()
+	logger.info(
+		gitRoot
+			? `${allFiles.length} changed TypeScript files found`
+			: `${allFiles.length} TypeScript files found`
+	)
+
+	const overrides = await resolveOverrides(options.overrides)
+	const projectOptions = await resolveProjectOptions(
+		options,
+		overrides,
+		pathToProcess
+	)
+
+	const changedLines = await getChangedLinesOfFiles()
+	const getOptionsHash = (file: string): string =>
+		hashFileOptions(
+			getFileOptions(options, overrides, file),
+			getFileChangedLines(changedLines, file)
+		)
+
+	// Skip the files that needed no changes last time, unless they or their dependencies changed
+	const cacheLocation = path.resolve(
+		options.cacheLocation ?? defaultCacheLocation
+	)
+	const cache = options.cache
+		? await loadCache(
+				cacheLocation,
+				await getCacheKey(projectOptions, projectOptions.tsConfigFilePath)
+			)
+		: undefined
+	let filesToProcess = allFiles
+	if (cache) {
+		const hashFile = createFileHasher()
+		const unchangedFiles = new Set<string>()
+		for (const file of allFiles) {
+			if (await isUnchanged(cache, file, getOptionsHash(file), hashFile)) {
+				unchangedFiles.add(file)
+			}
+		}
+		filesToProcess = allFiles.filter(
+			(file): boolean => !unchangedFiles.has(file)
+		)
+		logger.info(
+			`Skipping ${unchangedFiles.size} unchanged file(s) found in the cache at "${cacheLocation}"`
+		)
+	}
+
+	// Refuse to mix the changes of the run with changes that are not staged, so that they can be reviewed on their own.
+	// Staged changes are not counted, since `git diff` still shows the changes of the run apart from them, and the
+	// files selected with changed are the ones being worked on, which are annotated on purpose.
+	if (
+		!options.allowDirty &&
+		!options.changed &&
+		!options.dryRun &&
+		!options.check &&
+		!options.diff
+	) {
+		const unstagedFiles = await getUnstagedFiles(
+			await findRepoRoot(pathToProcess, logger)
+		)
+
+		// Files with unstaged changes are annotated in memory first, and only the ones that would change are refused
+		let checkedProject: Project | undefined
+		const dirtyFiles: string[] = []
+		for (const file of filesToProcess) {
+			if (!unstagedFiles?.has(file)) {
+				continue
+			}
+
+			checkedProject ??= new Project(projectOptions)
+			const outcome = await processFileSafely(
+				checkedProject,
+				file,
+				{ ...options, dryRun: true },
+				overrides,
+				getFileChangedLines(changedLines, file)
+			)
+			if ('result' in outcome && outcome.result.status !== 'unchanged') {
+				dirtyFiles.push(file)
+			}
+		}
+		if (dirtyFiles.length > 0) {
+			logger.error(
+				`\nRefusing to modify ${dirtyFiles.length} file(s) with changes that are not staged in git. Stage or commit them first, or use the allowDirty option (--allow-dirty):`
+			)
+			for (const file of dirtyFiles) {
+				logger.error(`  - ${file}`)
+			}
+
+			const error = 'The file has changes that are not staged in git'
+			return {
+				files: dirtyFiles.map(
+					(file): FileResult =>
+						getFileResult(file, { file, durationMs: 0, error })
+				),
+				errors: dirtyFiles.map(
+					(file): string => `Refused to modify file ${file}: ${error}`
+				),
+				runId: undefined,
+				exitCode: 1,
+				startTime,
+				durationMs: Date.now() - startTime
+			}
+		}
+	}
+
+	const totalFiles = filesToProcess.length
+	const outcomes = new Map<string, FileOutcome>()
+	const errors: string[] = []
 
-	console.info(`Using directory: "${pathToProcess}"`)
+	// Paths in patches are relative to the repository root, so they apply with `git apply`
+	const patchRootPath =
+		options.diff || options.outputPatch
+			? await findRepoRoot(pathToProcess, logger)
+			: pathToProcess
+	const useColor = process.stdout.isTTY && !process.env.NO_COLOR
 
-	const allFiles = await getAllTsAndTsxFiles(pathToProcess, options)
-	console.info(`${allFiles.length} TypeScript files found`)
+	const printPatch = (file: string, result: ProcessFileResult): void => {
+		const patch = createFilePatch(
+			file,
+			patchRootPath,
+			result.originalText,
+			result.updatedText
+		)
+		if (patch) {
+			logger.info(useColor ? colorizePatch(patch) : patch)
+		}
+	}
 
-	let project: Project
+	// Every run that saves files is journaled as it saves them, so that it can be undone
+	const journalSavedFile = (
+		journal: RunJournal,
+		file: string,
+		result: ProcessFileResult
+	): void => {
+		if (result.status === 'modified') {
+			journal.addFile(
+				createJournalFile(
+					file,
+					result.originalText,
+					result.updatedText,
+					result.annotations
+				)
+			)
+		}
+	}
+	const runJournal = createRunJournal(cacheLocation, logger)
+
+	const onFileProcessed = (outcome: FileOutcome): void => {
+		const { file } = outcome
+		outcomes.set(file, outcome)
+		if ('error' in outcome) {
+			const errorMessage = `Error processing file ${file}: ${outcome.error}`
+			logger.error(errorMessage)
+			errors.push(errorMessage)
+			return
+		}
+
+		const { result } = outcome
+		// Files without changes are only listed when debugging, so that the changes stand out
+		logger[result.status === 'unchanged' ? 'debug' : 'info'](
+			`${outcomes.size}/${totalFiles}: ${result.message}`
+		)
+		journalSavedFile(runJournal, file, result)
+
+		if (options.diff) {
+			printPatch(file, result)
+		}
+	}
+
+	const concurrency = Math.min(options.concurrency, totalFiles)
+	let project: Project | undefined
+	if (concurrency > 1) {
+		logger.info(`Processing files in ${concurrency} worker threads`)
+		await processFilesInWorkers(
+			filesToProcess,
+			concurrency,
+			{ options, overrides, projectOptions, changedLines },
+			onFileProcessed
+		)
+	} else {
+		project = new Project(projectOptions)
+		for (const file of filesToProcess) {
+			onFileProcessed(
+				await processFileSafely(
+					project,
+					file,
+					options,
+					overrides,
+					getFileChangedLines(changedLines, file)
+				)
+			)
+		}
+	}
+
+	// Collect the results in the order of the files, however they were processed
+	const processedResults = allFiles.flatMap(
+		(file): [string, ProcessFileResult][] => {
+			const outcome = outcomes.get(file)
+			return outcome && 'result' in outcome ? [[file, outcome.result]] : []
+		}
+	)
+	const annotations = processedResults.flatMap(
+		([, result]): Annotation[] => result.annotations
+	)
+	const complexReturnTypes = processedResults.flatMap(
+		([, result]): ComplexReturnType[] => result.complexReturnTypes
+	)
+	const rolledBackReturnTypes = processedResults.flatMap(
+		([, result]): RolledBackReturnType[] => result.rolledBackReturnTypes
+	)
+	const patches = options.outputPatch
+		? processedResults
+				.map(([file, result]): string =>
+					createFilePatch(
+						file,
+						patchRootPath,
+						result.originalText,
+						result.updatedText
+					)
+				)
+				.filter(Boolean)
+		: []
+
+	const runId = await runJournal.close()
+
+	if (cache) {
+		// Hash the dependencies after the run, since some of them may have been changed by it
+		const hashFile = createFileHasher()
+		for (const [file, result] of processedResults) {
+			await updateCacheEntry(cache, file, {
+				text: result.originalText,
+				needsChanges:
+					result.annotations.length > 0 ||
+					result.originalText !== result.updatedText,
+				optionsHash: getOptionsHash(file),
+				dependencies: result.dependencies,
+				hashFile
+			})
+		}
+		await saveCache(cacheLocation, cache)
+	}
+
+	if (options.outputPatch) {
+		const patchPath = path.resolve(options.outputPatch)
+		await fs.writeFile(patchPath, patches.join(''))
+		logger.info(`Wrote patch for ${patches.length} file(s) to "${patchPath}"`)
+	}
+
+	const endTime = Date.now()
+	logger.info(
+		`Processing complete after ${(endTime - startTime) / 1000} seconds`
+	)
+
+	printComplexReturnTypes(complexReturnTypes, logger)
+	printRolledBackReturnTypes(rolledBackReturnTypes, logger)
+
+	if (errors.length > 0) {
+		logger.error(`\nFailed to process ${errors.length} file(s):`)
+		for (const error of errors) {
+			logger.error(`  - ${error}`)
+		}
+	}
+
+	if (options.check) {
+		printMissingReturnTypes(annotations, logger)
+	}
+
+	if (options.watch) {
+		// The Project of the workers is gone, so watching starts with a new one
+		const watchedProject = project ?? new Project(projectOptions)
+		await watchFiles(
+			watchedProject,
+			{
+				rootPath: pathToProcess,
+				getDirectories: async (): Promise<string[]> =>
+					getAllDirectories(inputPaths, options),
+				getFiles,
+				processFile: async (file): Promise<string | undefined> => {
+					const outcome = await processFileSafely(
+						watchedProject,
+						file,
+						options,
+						overrides,
+						getFileChangedLines(await getChangedLinesOfFiles(), file)
+					)
+					if ('error' in outcome) {
+						logger.error(`Error processing file ${file}: ${outcome.error}`)
+						return undefined
+					}
+
+					logger[outcome.result.status === 'unchanged' ? 'debug' : 'info'](
+						outcome.result.message
+					)
+					// Each save is a run of its own, which can be undone on its own
+					const savedFileJournal = createRunJournal(cacheLocation, logger)
+					journalSavedFile(savedFileJournal, file, outcome.result)
+					await savedFileJournal.close()
+					if (options.diff) {
+						printPatch(file, outcome.result)
+					}
+					printComplexReturnTypes(outcome.result.complexReturnTypes, logger)
+					printRolledBackReturnTypes(
+						outcome.result.rolledBackReturnTypes,
+						logger
+					)
+					return outcome.result.status === 'modified'
+						? outcome.result.updatedText
+						: undefined
+				},
+				logger
+			},
+			options.signal
+		)
+	}
+
+	let exitCode = 0
+	if (errors.length > 0) {
+		exitCode = 1
+	} else if (options.check && annotations.length > 0) {
+		exitCode = checkFailedExitCode
+	}
+
+	return {
+		files: allFiles.map(
+			(file): FileResult => getFileResult(file, outcomes.get(file))
+		),
+		errors,
+		runId,
+		exitCode,
+		startTime,
+		durationMs: endTime - startTime
+	}
+}
+
+/**
+ * Annotates the code read from stdin as if it were the file at
+ * `stdinFilepath`, resolving its types in the project around that path, and
+ * writes the annotated code to stdout without saving it, in the style of a
+ * formatter. In check mode, nothing is written and the missing return types
+ * are only listed.
+ * @param options - The resolved options.
+ * @param startTime - When the run started.
+ * @returns A promise that resolves to the outcome of the run.
+ */
+async function processStdin(
+	options: Options,
+	startTime: number
+): Promise<RunResult> {
+	const { logger } = options
+	if (!options.stdinFilepath) {
+		throw new Error('The stdin option requires the stdinFilepath option')
+	}
+
+	// The path decides how the code is parsed, how its relative imports resolve and which overrides apply
+	const filePath = path.resolve(options.stdinFilepath)
+	const code = await readStdin()
+	const overrides = await resolveOverrides(options.overrides)
+	const project = new Project(
+		await resolveProjectOptions(options, overrides, path.dirname(filePath))
+	)
+
+	const fileStartTime = Date.now()
+	let fileResult: FileResult
+	try {
+		const sourceFile = project.createSourceFile(filePath, code, {
+			overwrite: true
+		})
+		const {
+			annotations,
+			complexReturnTypes,
+			rolledBackReturnTypes,
+			skippedFunctions
+		} = annotateSourceFile(
+			sourceFile,
+			getFileOptions(options, overrides, filePath),
+			undefined
+		)
+
+		if (!options.check) {
+			process.stdout.write(sourceFile.getFullText())
+		}
+		printComplexReturnTypes(complexReturnTypes, logger)
+		printRolledBackReturnTypes(rolledBackReturnTypes, logger)
+
+		fileResult = {
+			filePath,
+			status: annotations.length > 0 ? 'wouldModify' : 'unchanged',
+			annotations,
+			skippedFunctions,
+			error: undefined,
+			durationMs: Date.now() - fileStartTime
+		}
+	} catch (error) {
+		fileResult = getFileResult(filePath, {
+			file: filePath,
+			durationMs: Date.now() - fileStartTime,
+			error: error instanceof Error ? error.message : String(error)
+		})
+	}
+
+	const errors = fileResult.error
+		? [`Error processing file ${filePath}: ${fileResult.error}`]
+		: []
+	for (const error of errors) {
+		logger.error(error)
+	}
+
+	if (options.check) {
+		printMissingReturnTypes(fileResult.annotations, logger)
+	}
+
+	let exitCode = 0
+	if (errors.length > 0) {
+		exitCode = 1
+	} else if (options.check && fileResult.annotations.length > 0) {
+		exitCode = checkFailedExitCode
+	}
+
+	return {
+		files: [fileResult],
+		errors,
+		runId: undefined,
+		exitCode,
+		startTime,
+		durationMs: Date.now() - startTime
+	}
+}
+
+/**
+ * Gets the options of the Project that types are resolved in: the given
+ * tsconfig, or else the default compiler options with the types of the
+ * dependencies in the repository.
+ * @param options - The resolved options.
+ * @param overrides - The resolved overrides.
+ * @param startPath - The directory the package.json files are looked up from.
+ * @returns A promise that resolves to the project options.
+ */
+async function resolveProjectOptions(
+	options: Options,
+	overrides: ResolvedOverride[],
+	startPath: string
+): Promise<ProjectOptions> {
+	const { logger } = options
+	let projectOptions: ProjectOptions
 
 	if (options.tsconfig) {
 		const tsconfigPath = path.resolve(options.tsconfig)
-		console.info(`Using tsconfig: "${tsconfigPath}"`)
-		project = new Project({
+		logger.info(`Using tsconfig: "${tsconfigPath}"`)
+		projectOptions = {
 			tsConfigFilePath: tsconfigPath,
 			skipAddingFilesFromTsConfig: true
-		})
+		}
 	} else {
 		// Find package.json files
-		const packageJsonFiles = await findPackageJsonFiles(pathToProcess)
-		const dependencies = await getDependencies(packageJsonFiles)
+		const packageJsonFiles = await findPackageJsonFiles(startPath, logger)
+		const dependencies = await getDependencies(packageJsonFiles, logger)
 
 		// Update Project configuration to include node_modules types
-		project = new Project({
-			compilerOptions: {
-				allowSyntheticDefaultImports: true,
-				esModuleInterop: true,
-				module: ModuleKind.ESNext,
-				target: ScriptTarget.ESNext,
-				strict: true,
-				noUncheckedIndexedAccess: true,
-				types: dependencies,
-				moduleResolution: ts.ModuleResolutionKind.NodeNext
-			},
+		projectOptions = {
+			compilerOptions: { ...defaultCompilerOptions, types: dependencies },
 			skipAddingFilesFromTsConfig: true
-		})
+		}
 	}
 
-	const totalFiles = allFiles.length
-	const errors: string[] = []
+	// Declarations are emitted in memory only, to compare them before and after annotating
+	if (
+		options.ensureStableDeclarations ||
+		overrides.some(
+			(override): boolean => override.options.ensureStableDeclarations === true
+		)
+	) {
+		projectOptions.compilerOptions = {
+			...projectOptions.compilerOptions,
+			declaration: true,
+			noEmit: false
+		}
+	}
 
-	for (const [index, file] of allFiles.entries()) {
-		try {
-			const message = await processFile(project, file, options)
-			console.info(`${index + 1}/${totalFiles}: ${message}`)
-		} catch (error) {
-			const errorMessage = `Error processing file ${file}: ${error instanceof Error ? error.message : String(error)}`
-			console.error(errorMessage)
-			errors.push(errorMessage)
+	return projectOptions
+}
+
+/**
+ * Describes the outcome of a file in the result of a run.
+ * @param filePath - The path of the file.
+ * @param outcome - The result or error of the file, or undefined if it was skipped as cached.
+ * @returns The outcome of the file.
+ */
+function getFileResult(
+	filePath: string,
+	outcome: FileOutcome | undefined
+): FileResult {
+	if (!outcome) {
+		return {
+			filePath,
+			status: 'cached',
+			annotations: [],
+			skippedFunctions: [],
+			error: undefined,
+			durationMs: 0
 		}
 	}
 
-	const endTime = Date.now()
-	console.info(
-		'Processing complete after %d seconds',
-		(endTime - startTime) / 1000
+	if ('error' in outcome) {
+		return {
+			filePath,
+			status: 'failed',
+			annotations: [],
+			skippedFunctions: [],
+			error: outcome.error,
+			durationMs: outcome.durationMs
+		}
+	}
+
+	return {
+		filePath,
+		status: outcome.result.status,
+		annotations: outcome.result.annotations,
+		skippedFunctions: outcome.result.skippedFunctions,
+		error: undefined,
+		durationMs: outcome.durationMs
+	}
+}
+
+/**
+ * Lists the functions with return types over the complexity budget, grouped by
+ * the policy applied to them.
+ * @param complexReturnTypes - The functions with complex return types.
+ * @param logger - The logger to list them with.
+ */
+function printComplexReturnTypes(
+	complexReturnTypes: ComplexReturnType[],
+	logger: Logger
+): void {
+	const headings: Record<ComplexTypePolicy, (count: number) => string> = {
+		skip: (count): string =>
+			`Skipped ${count} function(s) with return types over the complexity budget, which can be annotated by hand:`,
+		report: (count): string =>
+			`Found ${count} return type(s) over the complexity budget:`,
+		extract: (count): string =>
+			`Extracted ${count} return type(s) over the complexity budget into type aliases:`
+	}
+
+	for (const policy of ['skip', 'report', 'extract'] as const) {
+		const matching = complexReturnTypes.filter(
+			(complexReturnType): boolean => complexReturnType.policy === policy
+		)
+		if (matching.length === 0) {
+			continue
+		}
+
+		logger.warn(`\n${headings[policy](matching.length)}`)
+		for (const { filePath, line, column, name, reason } of matching) {
+			logger.warn(`  - ${filePath}:${line}:${column} - ${name} (${reason})`)
+		}
+	}
+}
+
+/**
+ * Lists the functions without explicit return types found in check mode.
+ * @param annotations - The return types that would be added.
+ * @param logger - The logger to list them with.
+ */
+function printMissingReturnTypes(
+	annotations: Annotation[],
+	logger: Logger
+): void {
+	if (annotations.length === 0) {
+		return
+	}
+
+	const fileCount = new Set(
+		annotations.map((annotation): string => annotation.filePath)
+	).size
+	logger.error(
+		`\nFound ${annotations.length} function(s) without explicit return types in ${fileCount} file(s):`
 	)
+	for (const { filePath, line, column, name, returnType } of annotations) {
+		logger.error(`  - ${filePath}:${line}:${column} - ${name}: ${returnType}`)
+	}
+}
 
-	if (errors.length > 0) {
-		console.error(`\nFailed to process ${errors.length} file(s):`)
-		for (const error of errors) {
-			console.error(`  - ${error}`)
+/**
+ * Lists the return types that were rolled back in verify mode or with
+ * `ensureStableDeclarations`, with the compiler errors or declaration changes
+ * they caused.
+ * @param rolledBackReturnTypes - The rolled back return types.
+ * @param logger - The logger to list them with.
+ */
+function printRolledBackReturnTypes(
+	rolledBackReturnTypes: RolledBackReturnType[],
+	logger: Logger
+): void {
+	if (rolledBackReturnTypes.length === 0) {
+		return
+	}
+
+	logger.warn(`\nRolled back ${rolledBackReturnTypes.length} return type(s):`)
+	for (const {
+		filePath,
+		line,
+		column,
+		name,
+		returnType,
+		reason
+	} of rolledBackReturnTypes) {
+		logger.warn(
+			`  - ${filePath}:${line}:${column} - ${name}: ${returnType} (${reason})`
+		)
+	}
+}
+
+/**
+ * The files that are never processed.
+ */
+const defaultIgnoreFiles = ['**/node_modules/**', '**/*.d.ts']
+
+/**
+ * Retrieves the directories that files are processed in: the specified
+ * directories, the directories of the specified files and, unless shallow,
+ * the subdirectories of the specified directories that are not ignored.
+ * @param inputPaths - The absolute paths of the directories and files.
+ * @param options - The options object.
+ * @returns A promise that resolves to an array of directory paths.
+ */
+async function getAllDirectories(
+	inputPaths: string[],
+	options: Options
+): Promise<string[]> {
+	const directories = new Set<string>()
+
+	for (const inputPath of inputPaths) {
+		const stats = await fs.stat(inputPath).catch((): undefined => undefined)
+		if (!stats?.isDirectory()) {
+			if (stats) {
+				directories.add(path.dirname(inputPath))
+			}
+			continue
+		}
+
+		directories.add(inputPath)
+		if (options.shallow) {
+			continue
+		}
+
+		const subdirectories = await fg('**', {
+			cwd: inputPath,
+			ignore: defaultIgnoreFiles.concat(options.ignoreFiles),
+			onlyDirectories: true,
+			absolute: true
+		})
+		for (const directory of subdirectories) {
+			directories.add(directory)
 		}
-		process.exit(1)
 	}
+
+	return [...directories]
 }
 
 /**
- * Retrieves all TypeScript and TSX files in the specified directory.
- * @param rootPath - The root directory to search.
+ * Retrieves all TypeScript and TSX files in the specified directories, and the
+ * specified files that are TypeScript files. Files are matched against the
+ * ignored files relative to their own directory.
+ * @param inputPaths - The absolute paths of the directories and files.
  * @param options - The options object.
  * @returns A promise that resolves to an array of file paths.
  */
 async function getAllTsAndTsxFiles(
-	rootPath: string,
+	inputPaths: string[],
 	options: Options
-): Promise<EntryInternal[]> {
+): Promise<string[]> {
 	const extensions = ['ts', 'tsx']
-	const patterns = extensions.map((ext): string => `**/*.${ext}`)
-
-	const defaultIgnorefiles = ['**/node_modules/**', '**/*.d.ts']
-	return fg(patterns, {
-		cwd: rootPath,
-		ignore: defaultIgnorefiles.concat(options.ignoreFiles),
-		absolute: true,
-		deep: options.shallow ? 0 : undefined // Recursive by default, shallow if specified
-	})
+	const files = new Set<string>()
+
+	for (const inputPath of inputPaths) {
+		const stats = await fs.stat(inputPath).catch((): undefined => undefined)
+		if (!stats) {
+			options.logger.warn(`Skipping "${inputPath}", which does not exist`)
+			continue
+		}
+
+		const isFile = stats.isFile()
+		if (isFile && !extensions.includes(path.extname(inputPath).slice(1))) {
+			continue
+		}
+
+		const patterns = isFile
+			? [fg.escapePath(path.basename(inputPath))]
+			: extensions.map((ext): string => `**/*.${ext}`)
+
+		const matchedFiles = await fg(patterns, {
+			cwd: isFile ? path.dirname(inputPath) : inputPath,
+			ignore: defaultIgnoreFiles.concat(options.ignoreFiles),
+			absolute: true,
+			deep: options.shallow ? 0 : undefined // Recursive by default, shallow if specified
+		})
+		for (const file of matchedFiles) {
+			files.add(file)
+		}
+	}
+
+	return [...files]
+}
+
+/**
+ * Processes a file with the options that apply to it, catching the error it
+ * fails with, so that the remaining files are still processed.
+ * @param project - The ts-morph Project instance.
+ * @param file - The path to the file to process.
+ * @param options - The options for the whole run.
+ * @param overrides - The resolved overrides.
+ * @param changedLines - The changed lines of the file, if only changed lines are processed.
+ * @returns The result or error of the file.
+ */
+export async function processFileSafely(
+	project: Project,
+	file: string,
+	options: Options,
+	overrides: ResolvedOverride[],
+	changedLines?: LineRange[]
+): Promise<FileOutcome> {
+	const startTime = Date.now()
+	try {
+		const fileOptions = getFileOptions(options, overrides, file)
+		const result = await processFile(project, file, fileOptions, changedLines)
+		return { file, durationMs: Date.now() - startTime, result }
+	} catch (error) {
+		return {
+			file,
+			durationMs: Date.now() - startTime,
+			error: error instanceof Error ? error.message : String(error)
+		}
+	}
 }
 
 /**
@@ -114,157 +1060,241 @@ async function getAllTsAndTsxFiles(
  * @param project - The ts-morph Project instance.
  * @param filePath - The path to the file to process.
  * @param options - The options object.
- * @returns A promise that resolves when processing is complete.
+ * @param changedLines - The changed lines of the file, if only functions spanning them are annotated.
+ * @returns A promise that resolves to a status message and the added return types.
  */
 async function processFile(
 	project: Project,
 	filePath: string,
-	options: Options
-): Promise<string> {
+	options: Options,
+	changedLines: LineRange[] | undefined
+): Promise<ProcessFileResult> {
 	const sourceFile =
 		project.getSourceFile(filePath) || project.addSourceFileAtPath(filePath)
 
-	let modified = false
+	const originalText = sourceFile.getFullText()
+	const { annotations, ...annotated } = annotateSourceFile(
+		sourceFile,
+		options,
+		changedLines
+	)
+	const texts = {
+		...annotated,
+		dependencies: options.cache ? getLocalDependencies(sourceFile) : [],
+		originalText,
+		updatedText: sourceFile.getFullText()
+	}
 
-	sourceFile.forEachDescendant((node): void => {
-		try {
-			// Check if the node is a function or method
-			if (
-				!(
-					Node.isFunctionDeclaration(node) ||
-					Node.isFunctionExpression(node) ||
-					Node.isArrowFunction(node) ||
-					Node.isMethodDeclaration(node)
+	if (annotations.length === 0) {
+		return {
+			message: `No changes made to "${filePath}"`,
+			status: 'unchanged',
+			annotations,
+			...texts
+		}
+	}
+
+	if (options.check) {
+		return {
+			message: `Found ${annotations.length} function(s) without explicit return types in "${filePath}"`,
+			status: 'wouldModify',
+			annotations,
+			...texts
+		}
+	}
+
+	// diff: the changes are printed for review instead of saved
+	if (options.dryRun || options.diff) {
+		return {
+			message: `Would modify "${filePath}" (${options.dryRun ? 'dry run' : 'diff'})`,
+			status: 'wouldModify',
+			annotations,
+			...texts
+		}
+	}
+
+	await sourceFile.save()
+	return {
+		message: `Processed and saved "${filePath}"`,
+		status: 'modified',
+		annotations,
+		...texts
+	}
+}
+
+/**
+ * Adds return types to the functions of a source file in memory, without
+ * saving it. In verify mode and with `ensureStableDeclarations`, the return
+ * types that break the file are rolled back and the file is annotated again
+ * without them.
+ * @param sourceFile - The source file.
+ * @param options - The options of the file.
+ * @param changedLines - The changed lines of the file, if only functions spanning them are annotated.
+ * @param functionStart - The start of the only function to annotate, such as the function at the cursor of an editor.
+ * @returns The added return types, and the functions that were left without one.
+ */
+export function annotateSourceFile(
+	sourceFile: SourceFile,
+	options: Options,
+	changedLines: LineRange[] | undefined,
+	functionStart?: number
+): SourceFileAnnotations {
+	const originalText = sourceFile.getFullText()
+	const originalErrors = options.verify ? getErrorMessages(sourceFile) : []
+	const originalDeclarations = options.ensureStableDeclarations
+		? getDeclarationOutput(sourceFile)
+		: undefined
+	const rolledBackFunctions = new Set<number>()
+	const rolledBackReturnTypes: RolledBackReturnType[] = []
+	let annotated = annotateFunctions(
+		sourceFile,
+		options,
+		changedLines,
+		rolledBackFunctions,
+		functionStart
+	)
+
+	// verify and ensureStableDeclarations: roll back the return types that break the file and annotate it again without them
+	const findRollbacks = (
+		annotatedIndices: Set<number>
+	): Map<number, string[]> => {
+		const newErrors = options.verify
+			? getNewErrors(sourceFile, originalErrors)
+			: []
+		if (newErrors.length > 0) {
+			return findBreakingFunctions(sourceFile, annotatedIndices, newErrors)
+		}
+		return originalDeclarations === undefined
+			? new Map()
+			: findChangedDeclarations(
+					sourceFile,
+					annotatedIndices,
+					originalDeclarations
 				)
-			) {
-				return
-			}
+	}
+	while (annotated.annotations.size > 0) {
+		const breakingFunctions = findRollbacks(
+			new Set(annotated.annotations.keys())
+		)
+		if (breakingFunctions.size === 0) {
+			break
+		}
 
-			// Check if node already has a return type
-			if (!options.overwrite && node.getReturnTypeNode()) {
-				return
+		for (const [index, messages] of breakingFunctions) {
+			const annotation = annotated.annotations.get(index)
+			if (annotation) {
+				rolledBackReturnTypes.push({
+					...annotation,
+					reason: messages.join(' ')
+				})
 			}
+			rolledBackFunctions.add(index)
+		}
 
-			// Check for allowedNames
-			const name =
-				Node.isMethodDeclaration(node) || Node.isFunctionDeclaration(node)
-					? node.getName()
-					: undefined
+		sourceFile.replaceWithText(originalText)
+		annotated = annotateFunctions(
+			sourceFile,
+			options,
+			changedLines,
+			rolledBackFunctions,
+			functionStart
+		)
+	}
 
-			if (name && options.ignoreFunctions.includes(name)) {
-				return
-			}
+	return {
+		annotations: [...annotated.annotations.values()],
+		complexReturnTypes: annotated.complexReturnTypes,
+		rolledBackReturnTypes,
+		skippedFunctions: [...annotated.skippedFunctions, ...rolledBackReturnTypes]
+	}
+}
 
-			// Ignore functions based on options
+/**
+ * Adds return types to the functions of a source file, with the imports and
+ * extracted types they need. Functions are numbered in the order of
+ * `isAnnotatableFunction` nodes, which is the same on every pass over the
+ * original text.
+ * @param sourceFile - The source file.
+ * @param options - The options object.
+ * @param changedLines - The changed lines of the file, if only functions spanning them are annotated.
+ * @param rolledBackFunctions - The indices of the functions to leave as they are.
+ * @param functionStart - The start of the only function to annotate, or undefined to annotate every function.
+ * @returns The added return types by the index of their function, the return types over the complexity budget and the functions that were skipped.
+ */
+function annotateFunctions(
+	sourceFile: SourceFile,
+	options: Options,
+	changedLines: LineRange[] | undefined,
+	rolledBackFunctions: Set<number>,
+	functionStart: number | undefined
+): {
+	annotations: Map<number, Annotation>
+	complexReturnTypes: ComplexReturnType[]
+	skippedFunctions: SkippedFunction[]
+} {
+	const annotations = new Map<number, Annotation>()
+	const complexReturnTypes: ComplexReturnType[] = []
+	const skippedFunctions: SkippedFunction[] = []
+	const pendingImports: PendingImports = new Map()
+	const pendingObjectTypes = createPendingObjectTypes()
+	const exportedFunctions = options.exportedOnly
+		? getExportedFunctions(sourceFile)
+		: undefined
+	// Functions are reported at their positions in the original text, which return types added earlier on the same line move
+	const originalPositions = sourceFile
+		.getDescendants()
+		.filter(isAnnotatableFunction)
+		.map((node): FunctionPosition => {
+			const start = node.getStart()
+			return { start, ...sourceFile.getLineAndColumnAtPos(start) }
+		})
+	let functionCount = 0
 
-			// ignoreExpressions: ignore function expressions (functions not part of a declaration)
-			if (
-				options.ignoreExpressions &&
-				(Node.isFunctionExpression(node) || Node.isArrowFunction(node))
-			) {
-				return
-			}
+	sourceFile.forEachDescendant((node): void => {
+		// Check if the node is a function or method
+		if (!isAnnotatableFunction(node)) {
+			return
+		}
 
-			// ignoreTypedFunctionExpressions: ignore function expressions with type annotations on the variable
-			if (
-				options.ignoreTypedFunctionExpressions &&
-				(Node.isFunctionExpression(node) || Node.isArrowFunction(node))
-			) {
-				const parent = node.getParent()
-				if (Node.isVariableDeclaration(parent) && parent.getTypeNode()) {
-					return
-				}
-			}
+		const functionIndex = functionCount++
+		const position = originalPositions[functionIndex]
+		const getAnnotation = (returnType: string): Annotation =>
+			describeAnnotation(node, position, returnType)
 
-			// ignoreFunctionsWithoutTypeParameters: ignore functions that don't have generic type parameters
-			if (
-				options.ignoreFunctionsWithoutTypeParameters &&
-				node.getTypeParameters().length === 0
-			) {
+		try {
+			// verify: leave the functions whose return types were rolled back
+			if (rolledBackFunctions.has(functionIndex)) {
 				return
 			}
 
-			// ignoreHigherOrderFunctions: ignore functions immediately returning another function expression
-			if (options.ignoreHigherOrderFunctions) {
-				const body = node.getBody()
-				if (body) {
-					if (Node.isBlock(body)) {
-						const statements = body.getStatements()
-						if (statements.length === 1) {
-							const statement = statements[0]
-							if (Node.isReturnStatement(statement)) {
-								const expr = statement.getExpression()
-								if (
-									expr &&
-									(Node.isFunctionExpression(expr) ||
-										Node.isArrowFunction(expr))
-								) {
-									return
-								}
-							}
-						}
-					} else if (
-						Node.isFunctionExpression(body) ||
-						Node.isArrowFunction(body)
-					) {
-						// Concise arrow function returning another function: () => () => 42
-						return
-					}
-				}
+			// Leave every function but the one that was asked for
+			if (functionStart !== undefined && position?.start !== functionStart) {
+				return
 			}
 
-			// ignoreConciseArrowFunctionExpressionsStartingWithVoid: ignore arrow functions starting with `void`
-			if (
-				options.ignoreConciseArrowFunctionExpressionsStartingWithVoid &&
-				Node.isArrowFunction(node)
-			) {
-				const body = node.getBody()
-				if (Node.isVoidExpression(body)) {
-					return
-				}
+			const skip = (reason: string, returnType?: string): void => {
+				skippedFunctions.push({
+					...getAnnotation(''),
+					returnType,
+					reason
+				})
 			}
-
-			// ignoreIIFEs: ignore immediately invoked function expressions
-			if (options.ignoreIIFEs) {
-				const parent = node.getParent()
-				if (Node.isParenthesizedExpression(parent)) {
-					const grandParent = parent.getParent()
-					if (
-						Node.isCallExpression(grandParent) &&
-						grandParent.getExpression() === parent
-					) {
-						return
-					}
-				} else if (
-					Node.isCallExpression(parent) &&
-					parent.getExpression() === node
-				) {
-					return
-				}
+			const ignore = (option: keyof Options): void => {
+				skip(`Ignored by the ${option} option`)
 			}
 
-			// ignoreAnonymousFunctions: ignore functions without names
-			if (options.ignoreAnonymousFunctions) {
-				if (Node.isFunctionExpression(node) && !node.getName()) {
-					return
-				}
-
-				if (Node.isArrowFunction(node)) {
-					const parent = node.getParent()
-					// Check if arrow function is assigned to a variable declaration, property declaration, or
-					// it is a property assignment
-					if (
-						(!Node.isVariableDeclaration(parent) || !parent.getName()) &&
-						!Node.isPropertyDeclaration(parent) &&
-						!Node.isPropertyAssignment(parent) &&
-						!(
-							Node.isBinaryExpression(parent) &&
-							parent.getOperatorToken().getKind() === SyntaxKind.EqualsToken
-						)
-					) {
-						return
-					}
-				}
+			const decision = getFunctionDecision(
+				node,
+				options,
+				exportedFunctions,
+				changedLines
+			)
+			if (decision.action === 'keep') {
+				return
+			}
+			if (decision.action === 'skip') {
+				skip(decision.reason)
+				return
 			}
 
 			// Reset the return type so we get the inferred type
@@ -297,8 +1327,8 @@ async function processFile(
 						const paramTypeNode = param.getTypeNode()
 						if (paramTypeNode) {
 							const paramTypeText = paramTypeNode.getText()
+							annotations.set(functionIndex, getAnnotation(paramTypeText))
 							node.setReturnType(paramTypeText)
-							modified = true
 							returnTypeSet = true
 							return // Return early since we've set the return type
 						}
@@ -307,50 +1337,433 @@ async function processFile(
 			}
 
 			if (!returnTypeSet) {
+				// A get accessor paired with an annotated set accessor gets the parameter type
+				// of the setter as it is written, so that the pair stays compatible
 				const type = node.getReturnType()
-				const typeText = type.getText(
-					node,
-					ts.TypeFormatFlags.NoTruncation |
-						ts.TypeFormatFlags.UseAliasDefinedOutsideCurrentScope |
-						ts.TypeFormatFlags.UseTypeOfFunction |
-						ts.TypeFormatFlags.UseFullyQualifiedType
-				)
-
-				// ignoreAnonymousObjectTypes: ignore functions that return anonymous object types
-				if (options.ignoreAnonymousObjects && typeText.includes('{')) {
-					return
-				}
+				let typeText =
+					getSetAccessorParameterType(node) ??
+					type.getText(node, typeFormatFlags)
 
 				// ignoreAny: ignore functions that return the any type
 				if (options.ignoreAny && /\bany\b/.test(typeText)) {
+					ignore('ignoreAny')
 					return
 				}
 
 				// ignoreUnknown: ignore functions that return the unknown type
 				if (options.ignoreUnknown && /\bunknown\b/.test(typeText)) {
+					ignore('ignoreUnknown')
+					return
+				}
+
+				// Complexity budget: skip, report or extract return types that are too complex, as they would be written
+				const complexityViolation = hasComplexityBudget(options)
+					? getComplexityBudgetViolation(
+							getWrittenTypeText(node, typeText, pendingImports),
+							options
+						)
+					: undefined
+				let extracted = false
+				if (complexityViolation) {
+					const complexReturnType: ComplexReturnType = {
+						...getAnnotation(typeText),
+						reason: complexityViolation,
+						policy: options.complexTypePolicy
+					}
+					complexReturnTypes.push(complexReturnType)
+
+					if (options.complexTypePolicy === 'extract') {
+						const aliasText = extractTypeAlias(
+							node,
+							type,
+							complexReturnType.name,
+							pendingObjectTypes,
+							pendingImports
+						)
+						if (aliasText) {
+							typeText = aliasText
+							extracted = true
+						} else {
+							complexReturnType.policy = 'skip'
+						}
+					}
+
+					if (complexReturnType.policy === 'skip') {
+						skip(complexityViolation, typeText)
+						return
+					}
+				}
+
+				// extractObjectTypes: refer to anonymous object types by a generated name
+				if (options.extractObjectTypes && !extracted) {
+					typeText =
+						extractObjectType(
+							node,
+							type,
+							getFunctionName(node),
+							options.extractedTypeKind,
+							pendingObjectTypes,
+							pendingImports
+						) ?? typeText
+				}
+
+				// ignoreAnonymousObjectTypes: ignore functions that return anonymous object types
+				if (options.ignoreAnonymousObjects && typeText.includes('{')) {
+					ignore('ignoreAnonymousObjects')
 					return
 				}
 
+				// Import the types the return type refers to that are not in scope yet
+				const unimportableName = collectMissingTypeImports(
+					node,
+					type,
+					pendingImports
+				)
+				if (unimportableName !== undefined) {
+					skip(
+						`No module is confirmed to export "${unimportableName}"`,
+						typeText
+					)
+					return
+				}
+
+				const annotation = getAnnotation(typeText)
 				node.setReturnType(typeText)
-				modified = true
+				rewriteImportTypes(node.getReturnTypeNodeOrThrow(), pendingImports)
+				annotation.returnType = node.getReturnTypeNodeOrThrow().getText()
+				annotations.set(functionIndex, annotation)
 			}
 		} catch (error) {
-			const position = node.getStart()
-			const { line, column } = sourceFile.getLineAndColumnAtPos(position)
-			console.error(
-				`Error processing node at ${filePath}:${line}:${column} - ${error instanceof Error ? error.message : String(error)}`
+			const { filePath, line, column } = getAnnotation('')
+			const message = error instanceof Error ? error.message : String(error)
+			options.logger.error(
+				`Error processing node at ${filePath}:${line}:${column} - ${message}`
 			)
+			skippedFunctions.push({
+				...getAnnotation(''),
+				returnType: undefined,
+				reason: `Error: ${message}`
+			})
 		}
 	})
 
-	if (!modified) {
-		return `No changes made to "${filePath}"`
+	addObjectTypes(sourceFile, pendingObjectTypes, pendingImports)
+	addTypeImports(sourceFile, pendingImports)
+
+	return { annotations, complexReturnTypes, skippedFunctions }
+}
+
+/**
+ * Gets the heads of the functions of a source file that would get a return
+ * type with the options. The file is annotated like a run does, including the
+ * checks of the inferred return types, and restored afterwards.
+ * @param sourceFile - The source file.
+ * @param options - The options of the file.
+ * @returns The heads of the functions, in the order they start in.
+ */
+export function getFunctionHeadsToAnnotate(
+	sourceFile: SourceFile,
+	options: Options
+): FunctionHead[] {
+	const originalText = sourceFile.getFullText()
+	const heads = sourceFile
+		.getDescendants()
+		.filter(isAnnotatableFunction)
+		.map((node): FunctionHead & { line: number; column: number } => {
+			const start = node.getStart()
+			return {
+				start,
+				end: node.getBody()?.getStart() ?? node.getEnd(),
+				...sourceFile.getLineAndColumnAtPos(start)
+			}
+		})
+
+	try {
+		// Annotations are reported at the positions of the functions in the original text
+		const annotatedPositions = new Set(
+			annotateSourceFile(sourceFile, options, undefined).annotations.map(
+				({ line, column }): string => `${line}:${column}`
+			)
+		)
+		return heads
+			.filter(({ line, column }): boolean =>
+				annotatedPositions.has(`${line}:${column}`)
+			)
+			.map(({ start, end }): FunctionHead => ({ start, end }))
+	} finally {
+		sourceFile.replaceWithText(originalText)
 	}
+}
 
-	if (options.dryRun) {
-		return `Would modify "${filePath}" (dry run)`
+/**
+ * Decides whether the return type of a function is inferred, from the
+ * options and the function itself, before it is.
+ * @param node - The function node.
+ * @param options - The options of the file.
+ * @param exportedFunctions - The exported functions of the file, if only they are annotated.
+ * @param changedLines - The changed lines of the file, if only functions spanning them are annotated.
+ * @returns The decision, with the reason if the function is skipped.
+ */
+function getFunctionDecision(
+	node: AnnotatableFunction,
+	options: Options,
+	exportedFunctions: Set<Node> | undefined,
+	changedLines: LineRange[] | undefined
+): FunctionDecision {
+	// exportedOnly: ignore functions that are not part of the API of the module
+	if (exportedFunctions && !exportedFunctions.has(node)) {
+		return ignoredBy('exportedOnly')
 	}
 
-	await sourceFile.save()
-	return `Processed and saved "${filePath}"`
+	// ignoreAccessors: ignore get accessors in classes and object literals
+	if (options.ignoreAccessors && Node.isGetAccessorDeclaration(node)) {
+		return ignoredBy('ignoreAccessors')
+	}
+
+	// Check if node already has a return type
+	if (!options.overwrite && node.getReturnTypeNode()) {
+		return { action: 'keep' }
+	}
+
+	// overwrite: keep the return type of a get accessor paired with a set accessor, which may be deliberately narrower than the type of the setter
+	if (
+		Node.isGetAccessorDeclaration(node) &&
+		node.getReturnTypeNode() &&
+		node.getSetAccessor()
+	) {
+		return {
+			action: 'skip',
+			reason:
+				'Kept the return type of a get accessor paired with a set accessor'
+		}
+	}
+
+	// changedLinesOnly: ignore functions that do not span any changed line
+	if (changedLines && !overlapsChangedLines(node, changedLines)) {
+		return ignoredBy('changedLinesOnly')
+	}
+
+	// Check for allowedNames
+	const name =
+		Node.isMethodDeclaration(node) ||
+		Node.isFunctionDeclaration(node) ||
+		Node.isGetAccessorDeclaration(node)
+			? node.getName()
+			: undefined
+
+	if (name && options.ignoreFunctions.includes(name)) {
+		return ignoredBy('ignoreFunctions')
+	}
+
+	// Ignore functions based on options
+
+	// ignoreExpressions: ignore function expressions (functions not part of a declaration)
+	if (
+		options.ignoreExpressions &&
+		(Node.isFunctionExpression(node) || Node.isArrowFunction(node))
+	) {
+		return ignoredBy('ignoreExpressions')
+	}
+
+	// ignoreTypedFunctionExpressions: ignore functions that get their type from the context
+	if (
+		options.ignoreTypedFunctionExpressions &&
+		isTypedFunctionExpression(node)
+	) {
+		return ignoredBy('ignoreTypedFunctionExpressions')
+	}
+
+	// ignoreFunctionsWithoutTypeParameters: ignore functions that don't have generic type parameters
+	if (
+		options.ignoreFunctionsWithoutTypeParameters &&
+		node.getTypeParameters().length === 0
+	) {
+		return ignoredBy('ignoreFunctionsWithoutTypeParameters')
+	}
+
+	// ignoreHigherOrderFunctions: ignore functions immediately returning another function expression
+	if (options.ignoreHigherOrderFunctions) {
+		const body = node.getBody()
+		if (body) {
+			if (Node.isBlock(body)) {
+				const statements = body.getStatements()
+				if (statements.length === 1) {
+					const statement = statements[0]
+					if (Node.isReturnStatement(statement)) {
+						const expr = statement.getExpression()
+						if (
+							expr &&
+							(Node.isFunctionExpression(expr) || Node.isArrowFunction(expr))
+						) {
+							return ignoredBy('ignoreHigherOrderFunctions')
+						}
+					}
+				}
+			} else if (
+				Node.isFunctionExpression(body) ||
+				Node.isArrowFunction(body)
+			) {
+				// Concise arrow function returning another function: () => () => 42
+				return ignoredBy('ignoreHigherOrderFunctions')
+			}
+		}
+	}
+
+	// ignoreConciseArrowFunctionExpressionsStartingWithVoid: ignore arrow functions starting with `void`
+	if (
+		options.ignoreConciseArrowFunctionExpressionsStartingWithVoid &&
+		Node.isArrowFunction(node)
+	) {
+		const body = node.getBody()
+		if (Node.isVoidExpression(body)) {
+			return ignoredBy('ignoreConciseArrowFunctionExpressionsStartingWithVoid')
+		}
+	}
+
+	// ignoreIIFEs: ignore immediately invoked function expressions
+	if (options.ignoreIIFEs) {
+		const parent = node.getParent()
+		if (Node.isParenthesizedExpression(parent)) {
+			const grandParent = parent.getParent()
+			if (
+				Node.isCallExpression(grandParent) &&
+				grandParent.getExpression() === parent
+			) {
+				return ignoredBy('ignoreIIFEs')
+			}
+		} else if (
+			Node.isCallExpression(parent) &&
+			parent.getExpression() === node
+		) {
+			return ignoredBy('ignoreIIFEs')
+		}
+	}
+
+	// ignoreAnonymousFunctions: ignore functions without names
+	if (options.ignoreAnonymousFunctions) {
+		if (Node.isFunctionExpression(node) && !node.getName()) {
+			return ignoredBy('ignoreAnonymousFunctions')
+		}
+
+		if (Node.isArrowFunction(node)) {
+			const parent = node.getParent()
+			// Check if arrow function is assigned to a variable declaration, property declaration, or
+			// it is a property assignment
+			if (
+				(!Node.isVariableDeclaration(parent) || !parent.getName()) &&
+				!Node.isPropertyDeclaration(parent) &&
+				!Node.isPropertyAssignment(parent) &&
+				!(
+					Node.isBinaryExpression(parent) &&
+					parent.getOperatorToken().getKind() === SyntaxKind.EqualsToken
+				)
+			) {
+				return ignoredBy('ignoreAnonymousFunctions')
+			}
+		}
+	}
+
+	return { action: 'annotate' }
+}
+
+/**
+ * Decides to skip a function because of an option.
+ * @param option - The option the function is ignored by.
+ * @returns The decision, with the option as the reason.
+ */
+function ignoredBy(option: keyof Options): FunctionDecision {
+	return { action: 'skip', reason: `Ignored by the ${option} option` }
+}
+
+/**
+ * Describes the return type about to be added to a function.
+ * @param node - The function node.
+ * @param position - The position of the function in the original text of the file, or undefined to use its current position.
+ * @param returnType - The return type text.
+ * @returns The annotation with the position and name of the function.
+ */
+function describeAnnotation(
+	node: Node,
+	position: FunctionPosition | undefined,
+	returnType: string
+): Annotation {
+	const sourceFile = node.getSourceFile()
+	const { line, column } =
+		position ?? sourceFile.getLineAndColumnAtPos(node.getStart())
+
+	return {
+		filePath: sourceFile.getFilePath(),
+		line,
+		column,
+		name: getFunctionName(node),
+		returnType
+	}
+}
+
+/**
+ * Gets the parameter type of the set accessor paired with a get accessor.
+ * @param node - The function node.
+ * @returns The text of the parameter type, or undefined if the function is not a get accessor with an annotated set accessor.
+ */
+function getSetAccessorParameterType(
+	node: AnnotatableFunction
+): string | undefined {
+	return Node.isGetAccessorDeclaration(node)
+		? node.getSetAccessor()?.getParameters()[0]?.getTypeNode()?.getText()
+		: undefined
+}
+
+/**
+ * Gets the text a return type is written with, after its `import("...")` types
+ * are rewritten into names, without keeping the return type or its imports.
+ * @param node - The function node, which has no return type.
+ * @param typeText - The printed return type.
+ * @param pendingImports - The imports about to be added to the file, which are left as they are.
+ * @returns The return type as it would be written.
+ */
+function getWrittenTypeText(
+	node: AnnotatableFunction,
+	typeText: string,
+	pendingImports: PendingImports
+): string {
+	if (!typeText.includes('import(')) {
+		return typeText
+	}
+
+	node.setReturnType(typeText)
+	rewriteImportTypes(node.getReturnTypeNodeOrThrow(), new Map(pendingImports))
+	const writtenTypeText = node.getReturnTypeNodeOrThrow().getText()
+	node.removeReturnType()
+	return writtenTypeText
+}
+
+/**
+ * Gets a readable name for a function, falling back to the name of the
+ * variable or property it is assigned to.
+ * @param node - The function node.
+ * @returns The name of the function, or "<anonymous>".
+ */
+function getFunctionName(node: Node): string {
+	if (
+		Node.isFunctionDeclaration(node) ||
+		Node.isFunctionExpression(node) ||
+		Node.isMethodDeclaration(node) ||
+		Node.isGetAccessorDeclaration(node)
+	) {
+		const name = node.getName()
+		if (name) {
+			return name
+		}
+	}
+
+	const parent = node.getParent()
+	if (
+		Node.isVariableDeclaration(parent) ||
+		Node.isPropertyDeclaration(parent) ||
+		Node.isPropertyAssignment(parent)
+	) {
+		return parent.getName()
+	}
+
+	return '<anonymous>'
 }
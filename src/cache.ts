@@ -0,0 +1,260 @@
+import crypto from 'node:crypto'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import type { SourceFile } from 'ts-morph'
+import type { LineRange } from './git.js'
+import { runOptionKeys, type Options } from './options.js'
+
+/**
+ * A file that needed no changes, with the hashes it was processed with.
+ */
+type CacheEntry = {
+	hash: string
+	optionsHash: string
+	/** Hashes of the project files the file imports, directly or indirectly. */
+	dependencies: Record<string, string>
+}
+
+/**
+ * The files that needed no changes in earlier runs, by their paths. The cache
+ * is discarded when its key changes, which happens when the tool is upgraded
+ * or the compiler options change.
+ */
+export type Cache = {
+	key: string
+	files: Map<string, CacheEntry>
+}
+
+/**
+ * The cache as it is stored in the cache file.
+ */
+type CacheFile = {
+	key: string
+	files: Record<string, CacheEntry>
+}
+
+export const defaultCacheLocation =
+	'node_modules/.cache/add-function-return-types'
+
+const cacheFileName = 'cache.json'
+
+/**
+ * Hashes a text.
+ * @param text - The text to hash.
+ * @returns The hex encoded hash.
+ */
+export function hashText(text: string): string {
+	return crypto.createHash('sha256').update(text).digest('hex')
+}
+
+/**
+ * Creates the key of the cache from everything that applies to all files: the
+ * version of the tool, the project options and the tsconfig file.
+ * @param projectOptions - The options the ts-morph Project is created with.
+ * @param tsconfigPath - The path of the tsconfig file, if one is used.
+ * @returns The cache key.
+ */
+export async function getCacheKey(
+	projectOptions: unknown,
+	tsconfigPath: string | undefined
+): Promise<string> {
+	const packageJson = JSON.parse(
+		await fs.readFile(new URL('../package.json', import.meta.url), 'utf-8')
+	)
+	const tsconfig = tsconfigPath ? await fs.readFile(tsconfigPath, 'utf-8') : ''
+
+	return hashText(
+		JSON.stringify([packageJson.version, projectOptions, tsconfig])
+	)
+}
+
+/**
+ * Hashes the options that decide how a file is annotated. Options that only
+ * affect the run, such as `dryRun`, are left out.
+ * @param options - The options of the file.
+ * @param changedLines - The changed lines of the file, if only changed lines are processed.
+ * @returns The hash of the options.
+ */
+export function hashFileOptions(
+	options: Options,
+	changedLines?: LineRange[]
+): string {
+	const fileOptions = Object.entries(options).filter(
+		([key]): boolean => !(runOptionKeys as readonly string[]).includes(key)
+	)
+	return hashText(JSON.stringify([fileOptions, changedLines]))
+}
+
+/**
+ * Loads the cache from the cache directory.
+ * @param cacheLocation - The cache directory.
+ * @param key - The current cache key.
+ * @returns The cache, or an empty cache if there is none, it cannot be read or its key is different.
+ */
+export async function loadCache(
+	cacheLocation: string,
+	key: string
+): Promise<Cache> {
+	try {
+		const cacheFile: CacheFile = JSON.parse(
+			await fs.readFile(path.join(cacheLocation, cacheFileName), 'utf-8')
+		)
+		if (
+			cacheFile.key === key &&
+			typeof cacheFile.files === 'object' &&
+			cacheFile.files !== null
+		) {
+			return { key, files: new Map(Object.entries(cacheFile.files)) }
+		}
+	} catch {
+		// A missing or corrupt cache is rebuilt
+	}
+
+	return { key, files: new Map() }
+}
+
+/**
+ * Writes the cache to the cache directory.
+ * @param cacheLocation - The cache directory.
+ * @param cache - The cache to write.
+ */
+export async function saveCache(
+	cacheLocation: string,
+	cache: Cache
+): Promise<void> {
+	await fs.mkdir(cacheLocation, { recursive: true })
+	const cacheFile: CacheFile = {
+		key: cache.key,
+		files: Object.fromEntries(cache.files)
+	}
+	await fs.writeFile(
+		path.join(cacheLocation, cacheFileName),
+		JSON.stringify(cacheFile)
+	)
+}
+
+/**
+ * Creates a function that hashes the content of files, reading each file only
+ * once per run.
+ * @returns The function, which resolves to undefined for files that cannot be read.
+ */
+export function createFileHasher(): (
+	filePath: string
+) => Promise<string | undefined> {
+	const hashes = new Map<string, Promise<string | undefined>>()
+
+	return async (filePath: string): Promise<string | undefined> => {
+		let hash = hashes.get(filePath)
+		if (!hash) {
+			hash = fs
+				.readFile(filePath, 'utf-8')
+				.then(hashText)
+				.catch((): undefined => undefined)
+			hashes.set(filePath, hash)
+		}
+		return hash
+	}
+}
+
+/**
+ * Checks whether a file needed no changes the last time and neither it, its
+ * options nor any of its dependencies have changed since.
+ * @param cache - The cache.
+ * @param filePath - The path of the file.
+ * @param optionsHash - The hash of the options of the file.
+ * @param hashFile - Hashes the content of a file.
+ */
+export async function isUnchanged(
+	cache: Cache,
+	filePath: string,
+	optionsHash: string,
+	hashFile: (filePath: string) => Promise<string | undefined>
+): Promise<boolean> {
+	const entry = cache.files.get(filePath)
+	if (
+		!entry ||
+		entry.optionsHash !== optionsHash ||
+		entry.hash !== (await hashFile(filePath))
+	) {
+		return false
+	}
+
+	for (const [dependency, hash] of Object.entries(entry.dependencies)) {
+		if ((await hashFile(dependency)) !== hash) {
+			return false
+		}
+	}
+	return true
+}
+
+/**
+ * Caches a file that needed no changes, or removes a file that did from the
+ * cache. Files with dependencies that cannot be read are not cached.
+ * @param cache - The cache.
+ * @param filePath - The path of the file.
+ * @param file - The outcome of processing the file.
+ * @param file.text - The text of the file before it was processed.
+ * @param file.needsChanges - Whether return types were, or would be, added to the file.
+ * @param file.optionsHash - The hash of the options of the file.
+ * @param file.dependencies - The paths of the project files the file depends on.
+ * @param file.hashFile - Hashes the content of a file.
+ */
+export async function updateCacheEntry(
+	cache: Cache,
+	filePath: string,
+	file: {
+		text: string
+		needsChanges: boolean
+		optionsHash: string
+		dependencies: string[]
+		hashFile: (filePath: string) => Promise<string | undefined>
+	}
+): Promise<void> {
+	const dependencies: Record<string, string> = {}
+	for (const dependency of file.dependencies) {
+		const hash = await file.hashFile(dependency)
+		if (hash === undefined) {
+			break
+		}
+		dependencies[dependency] = hash
+	}
+
+	const isCacheable =
+		!file.needsChanges &&
+		Object.keys(dependencies).length === file.dependencies.length
+	if (isCacheable) {
+		cache.files.set(filePath, {
+			hash: hashText(file.text),
+			optionsHash: file.optionsHash,
+			dependencies
+		})
+	} else {
+		cache.files.delete(filePath)
+	}
+}
+
+/**
+ * Gets the project files a source file imports, directly or through other
+ * project files. Files in node_modules are left out.
+ * @param sourceFile - The source file.
+ * @returns The absolute paths of the dependencies.
+ */
+export function getLocalDependencies(sourceFile: SourceFile): string[] {
+	const dependencies = new Set<SourceFile>()
+	const queue = [sourceFile]
+
+	for (let current = queue.shift(); current; current = queue.shift()) {
+		for (const referencedFile of current.getReferencedSourceFiles()) {
+			if (
+				referencedFile !== sourceFile &&
+				!referencedFile.isInNodeModules() &&
+				!dependencies.has(referencedFile)
+			) {
+				dependencies.add(referencedFile)
+				queue.push(referencedFile)
+			}
+		}
+	}
+
+	return [...dependencies].map((dependency): string => dependency.getFilePath())
+}
@@ -1,6 +1,8 @@
-import { Command } from 'commander'
+import { Command, InvalidArgumentError, Option } from 'commander'
 import { addFunctionReturnTypes } from './add-function-return-types.js'
-import { defaultOptions } from './options.js'
+import { resolveOptions } from './config.js'
+import { undoRun } from './journal.js'
+import { createConsoleLogger, type Logger, type LogLevel } from './logger.js'
 
 export async function main(): Promise<void> {
 	const program = new Command()
@@ -10,12 +12,40 @@ export async function main(): Promise<void> {
 		.description(
 			'CLI tool to add explicit return types to TypeScript functions'
 		)
-		.argument('[path]', 'Path to the directory or file to process (optional)')
+		.argument(
+			'[paths...]',
+			'Paths to the directories and files to process (optional)'
+		)
+		.option(
+			'--files-from <file>',
+			'Read more paths to process from a file, or from stdin with -, one per line or NUL-separated'
+		)
+		.option(
+			'--stdin',
+			'Read code from stdin and write it to stdout with return types added, without processing or saving files'
+		)
+		.option(
+			'--stdin-filepath <path>',
+			'Path of the code read from stdin, whose project its types are resolved in'
+		)
 		.option('--shallow', 'Process only the top-level directory')
 		.option(
 			'--ignore-files <patterns>',
 			'Comma-separated list of file patterns to ignore'
 		)
+		.option(
+			'--since <ref>',
+			'Only process files changed since the branch point of a git ref'
+		)
+		.option('--staged', 'Only process files staged in git')
+		.option(
+			'--changed',
+			'Only process files modified or added in the git working tree'
+		)
+		.option(
+			'--changed-lines-only',
+			'Only annotate functions spanning lines changed in git, selected with --since, --staged or --changed'
+		)
 		.option(
 			'--ignore-functions <names>',
 			'Comma-separated list of function/method names to ignore'
@@ -41,7 +71,7 @@ export async function main(): Promise<void> {
 		)
 		.option(
 			'--ignore-typed-function-expressions',
-			'Ignore function expressions with type annotations on the variable.'
+			'Ignore function expressions typed by their context, such as typed variables, callback arguments and JSX attributes.'
 		)
 		.option(
 			'--ignore-iifes',
@@ -55,50 +85,252 @@ export async function main(): Promise<void> {
 			'--ignore-anonymous-functions',
 			'Ignore anonymous functions (functions without names)'
 		)
+		.option(
+			'--ignore-accessors',
+			'Ignore get accessors in classes and object literals'
+		)
+		.option(
+			'--exported-only',
+			'Only annotate exported functions and the public methods of exported classes'
+		)
+		.option(
+			'--extract-object-types',
+			'Extract anonymous object return types into named types declared next to the function'
+		)
+		.addOption(
+			new Option(
+				'--extracted-type-kind <kind>',
+				'Declare extracted object types as type aliases or interfaces'
+			).choices(['type', 'interface'])
+		)
+		.option(
+			'--max-type-length <length>',
+			'Maximum number of characters of an added return type',
+			parsePositiveInteger
+		)
+		.option(
+			'--max-union-members <count>',
+			'Maximum number of members of a union in an added return type',
+			parsePositiveInteger
+		)
+		.option(
+			'--max-type-depth <depth>',
+			'Maximum nesting depth of object types, arrays and type arguments in an added return type',
+			parsePositiveInteger
+		)
+		.addOption(
+			new Option(
+				'--complex-type-policy <policy>',
+				'What to do with return types over the complexity budget: skip the function, add and report it, or extract a type alias'
+			).choices(['skip', 'report', 'extract'])
+		)
 		.option('--dry-run', 'Preview changes without modifying files')
+		.option(
+			'--allow-dirty',
+			'Modify files with changes that are not staged in git, which are refused by default'
+		)
+		.option(
+			'--check',
+			'List functions without explicit return types and exit with code 2 if any are found, without modifying files'
+		)
+		.option(
+			'--verify',
+			'Type-check each file after adding return types and roll back the ones that cause new compiler errors'
+		)
+		.option(
+			'--ensure-stable-declarations',
+			'Emit declarations for each file before and after adding return types and roll back the ones that change them'
+		)
+		.option(
+			'--concurrency <threads>',
+			'Number of worker threads to process files in parallel',
+			parsePositiveInteger
+		)
+		.option(
+			'--cache',
+			'Skip files that needed no changes in an earlier run, unless they or their dependencies changed'
+		)
+		.option(
+			'--cache-location <dir>',
+			'Directory to store the cache and the journals of runs in (defaults to node_modules/.cache/add-function-return-types)'
+		)
+		.option(
+			'--watch',
+			'Keep running and add return types to files as they are saved'
+		)
+		.option(
+			'--diff',
+			'Print a unified diff of the changes for each file instead of modifying files'
+		)
+		.option(
+			'--output-patch <file>',
+			'Write a patch of all changes to a file, which can be applied with `git apply`'
+		)
 		.option(
 			'--tsconfig <path>',
 			'Path to a tsconfig.json file for type resolution'
 		)
+		.option(
+			'--config <path>',
+			'Path to a config file (defaults to the nearest add-function-return-types.config.{json,js,ts})'
+		)
+		.addOption(
+			new Option(
+				'--quiet',
+				'Only log warnings and errors, such as skipped functions and failed files'
+			).conflicts(['verbose', 'silent'])
+		)
+		.addOption(
+			new Option(
+				'--verbose',
+				'Also log debug messages, such as the files that needed no changes and the dependencies found'
+			).conflicts('silent')
+		)
+		.addOption(new Option('--silent', 'Log nothing'))
+		.action(async (paths: string[]): Promise<void> => {
+			const options = program.opts()
+
+			// Options that are not given fall back to the config file and the defaults
+			const result = await addFunctionReturnTypes({
+				path: paths.length > 0 ? paths : undefined,
+				filesFrom: options.filesFrom,
+				stdin: options.stdin,
+				stdinFilepath: options.stdinFilepath,
+				shallow: options.shallow,
+				ignoreFiles: options.ignoreFiles?.split(','),
+				since: options.since,
+				staged: options.staged,
+				changed: options.changed,
+				changedLinesOnly: options.changedLinesOnly,
+				overwrite: options.overwrite,
+				ignoreConciseArrowFunctionExpressionsStartingWithVoid:
+					options.ignoreConciseArrowFunctionExpressionsStartingWithVoid,
+				ignoreExpressions: options.ignoreExpressions,
+				ignoreFunctionsWithoutTypeParameters:
+					options.ignoreFunctionsWithoutTypeParameters,
+				ignoreHigherOrderFunctions: options.ignoreHigherOrderFunctions,
+				ignoreTypedFunctionExpressions: options.ignoreTypedFunctionExpressions,
+				ignoreIIFEs: options.ignoreIifes,
+				ignoreFunctions: options.ignoreFunctions?.split(','),
+				ignoreAnonymousObjects: options.ignoreAnonymousObjects,
+				ignoreAny: options.ignoreAny,
+				ignoreUnknown: options.ignoreUnknown,
+				ignoreAnonymousFunctions: options.ignoreAnonymousFunctions,
+				ignoreAccessors: options.ignoreAccessors,
+				exportedOnly: options.exportedOnly,
+				extractObjectTypes: options.extractObjectTypes,
+				extractedTypeKind: options.extractedTypeKind,
+				maxTypeLength: options.maxTypeLength,
+				maxUnionMembers: options.maxUnionMembers,
+				maxTypeDepth: options.maxTypeDepth,
+				complexTypePolicy: options.complexTypePolicy,
+				dryRun: options.dryRun,
+				allowDirty: options.allowDirty,
+				check: options.check,
+				verify: options.verify,
+				ensureStableDeclarations: options.ensureStableDeclarations,
+				concurrency: options.concurrency,
+				cache: options.cache,
+				cacheLocation: options.cacheLocation,
+				watch: options.watch,
+				diff: options.diff,
+				outputPatch: options.outputPatch,
+				tsconfig: options.tsconfig,
+				config: options.config,
+				logger: getLogger(options)
+			})
+
+			// Only the CLI exits the process, the library reports the exit code in its result
+			if (result.exitCode !== 0) {
+				process.exit(result.exitCode)
+			}
+		})
+
+	// Boolean options set in the config file can be turned off from the command line
+	for (const option of program.options) {
+		if (
+			option.isBoolean() &&
+			!option.negate &&
+			!['stdin', 'quiet', 'verbose', 'silent'].includes(option.name())
+		) {
+			program.addOption(new Option(`--no-${option.name()}`).hideHelp())
+		}
+	}
+	program.addHelpText(
+		'after',
+		'\nBoolean options can be turned off with their --no- form, such as --no-cache, to override the config file.'
+	)
+
+	program
+		.command('undo')
+		.description(
+			'Restore the files saved by a run, unless they were modified since'
+		)
+		.argument('[runId]', 'Id of the run to undo (defaults to the latest run)')
+		.action(async (runId: string | undefined): Promise<void> => {
+			const options = program.opts()
+
+			// The journals are in the cache location of the config file, unless one is given
+			const { cacheLocation, logger } = await resolveOptions({
+				cacheLocation: options.cacheLocation,
+				config: options.config,
+				logger: getLogger(options)
+			})
+			const result = await undoRun(runId, cacheLocation, logger)
+			if (result.exitCode !== 0) {
+				process.exit(result.exitCode)
+			}
+		})
+
+	// Invalid options are reported like the errors of commander, without a stack trace
+	try {
+		await program.parseAsync(process.argv)
+	} catch (error) {
+		program.error(
+			`error: ${error instanceof Error ? error.message : String(error)}`
+		)
+	}
+}
 
-	program.parse(process.argv)
+/**
+ * Creates a console logger for the log level flags, or undefined if none is
+ * given, so that the logger falls back to the config file and the defaults.
+ * With stdin, the logger writes to stderr.
+ * @param options - The parsed CLI options.
+ * @returns The logger.
+ */
+function getLogger(options: {
+	quiet?: boolean
+	verbose?: boolean
+	silent?: boolean
+	stdin?: boolean
+}): Logger | undefined {
+	let level: LogLevel | undefined
+	if (options.silent) {
+		level = 'silent'
+	} else if (options.quiet) {
+		level = 'warn'
+	} else if (options.verbose) {
+		level = 'debug'
+	}
 
-	const options = program.opts()
-	const path = program.args[0] || defaultOptions.path
+	if (!level) {
+		return undefined
+	}
+
+	// With stdin, stdout is reserved for the annotated code
+	return createConsoleLogger(level, options.stdin ? 'stderr' : 'stdout')
+}
 
-	await addFunctionReturnTypes({
-		path,
-		shallow: options.shallow ?? defaultOptions.shallow,
-		ignoreFiles: options.ignoreFiles
-			? options.ignoreFiles.split(',')
-			: defaultOptions.ignoreFiles,
-		overwrite: options.overwrite ?? defaultOptions.overwrite,
-		ignoreConciseArrowFunctionExpressionsStartingWithVoid:
-			options.ignoreConciseArrowFunctionExpressionsStartingWithVoid ??
-			defaultOptions.ignoreConciseArrowFunctionExpressionsStartingWithVoid,
-		ignoreExpressions:
-			options.ignoreExpressions ?? defaultOptions.ignoreExpressions,
-		ignoreFunctionsWithoutTypeParameters:
-			options.ignoreFunctionsWithoutTypeParameters ??
-			defaultOptions.ignoreFunctionsWithoutTypeParameters,
-		ignoreHigherOrderFunctions:
-			options.ignoreHigherOrderFunctions ??
-			defaultOptions.ignoreHigherOrderFunctions,
-		ignoreTypedFunctionExpressions:
-			options.ignoreTypedFunctionExpressions ??
-			defaultOptions.ignoreTypedFunctionExpressions,
-		ignoreIIFEs: options.ignoreIifes ?? defaultOptions.ignoreIIFEs,
-		ignoreFunctions: options.ignoreFunctions
-			? options.ignoreFunctions.split(',')
-			: defaultOptions.ignoreFunctions,
-		ignoreAnonymousObjects:
-			options.ignoreAnonymousObjects ?? defaultOptions.ignoreAnonymousObjects,
-		ignoreAny: options.ignoreAny ?? defaultOptions.ignoreAny,
-		ignoreUnknown: options.ignoreUnknown ?? defaultOptions.ignoreUnknown,
-		ignoreAnonymousFunctions:
-			options.ignoreAnonymousFunctions ??
-			defaultOptions.ignoreAnonymousFunctions,
-		dryRun: options.dryRun ?? defaultOptions.dryRun,
-		tsconfig: options.tsconfig ?? defaultOptions.tsconfig
-	})
+/**
+ * Parses an option value as a positive integer.
+ * @param value - The option value.
+ * @returns The parsed number.
+ */
+function parsePositiveInteger(value: string): number {
+	const number = Number(value)
+	if (!Number.isInteger(number) || number < 1) {
+		throw new InvalidArgumentError('Expected a positive integer.')
+	}
+	return number
 }
@@ -0,0 +1,314 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { pathToFileURL } from 'node:url'
+import fg from 'fast-glob'
+import { tsImport } from 'tsx/esm/api'
+import { consoleLogger, createConsoleLogger, type Logger } from './logger.js'
+import {
+	type ConfigOverride,
+	defaultOptions,
+	type FileOptions,
+	type Options
+} from './options.js'
+import { findRepoRoot } from './utils.js'
+
+/**
+ * Options that only make sense for a single run, given on the command line or
+ * by the caller, and therefore cannot be set in a configuration file.
+ */
+const unsupportedConfigKeys = [
+	'path',
+	'filesFrom',
+	'stdin',
+	'stdinFilepath',
+	'config',
+	'signal',
+	'logger'
+] as const satisfies (keyof Options)[]
+
+/**
+ * The shape of a configuration file. Every option is optional and falls back to
+ * `defaultOptions`, while options given on the command line take precedence.
+ */
+export type Config = Partial<
+	Omit<Options, (typeof unsupportedConfigKeys)[number]>
+>
+
+/**
+ * An override with its file patterns expanded to the matching absolute paths.
+ */
+export type ResolvedOverride = {
+	files: Set<string>
+	options: Partial<FileOptions>
+}
+
+export const configFileNames = [
+	'add-function-return-types.config.json',
+	'add-function-return-types.config.js',
+	'add-function-return-types.config.ts'
+]
+
+const packageJsonKey = 'addFunctionReturnTypes'
+
+/**
+ * Identity function that gives type checking and completion when authoring a
+ * configuration file.
+ * @param config - The configuration.
+ * @returns The same configuration.
+ */
+export function defineConfig(config: Config): Config {
+	return config
+}
+
+/**
+ * Searches for a configuration file from the given path up to the repository
+ * root. A package.json only counts if it has an "addFunctionReturnTypes" key.
+ * @param startPath - The file or directory to start searching from.
+ * @param logger - The logger for progress messages.
+ * @returns The path of the configuration file, or undefined if none is found.
+ */
+export async function findConfigFile(
+	startPath: string,
+	logger: Logger = consoleLogger
+): Promise<string | undefined> {
+	const resolvedPath = path.resolve(startPath)
+	const stats = await fs.stat(resolvedPath).catch((): undefined => undefined)
+	const startDir = stats?.isFile() ? path.dirname(resolvedPath) : resolvedPath
+	const repoRoot = await findRepoRoot(startDir, logger)
+
+	let currentDir = startDir
+	while (true) {
+		for (const fileName of configFileNames) {
+			const configPath = path.join(currentDir, fileName)
+			if (await fileExists(configPath)) {
+				return configPath
+			}
+		}
+
+		const packageJsonPath = path.join(currentDir, 'package.json')
+		if (await fileExists(packageJsonPath)) {
+			try {
+				const packageJson = JSON.parse(
+					await fs.readFile(packageJsonPath, 'utf-8')
+				)
+				if (packageJson[packageJsonKey] !== undefined) {
+					return packageJsonPath
+				}
+			} catch {
+				// An unreadable package.json is not a configuration file
+			}
+		}
+
+		const parentDir = path.dirname(currentDir)
+		if (currentDir === repoRoot || parentDir === currentDir) {
+			return undefined
+		}
+		currentDir = parentDir
+	}
+}
+
+/**
+ * Loads a configuration file. Relative paths in the configuration are resolved
+ * against the directory of the file.
+ * @param configPath - The path to the configuration file.
+ * @returns The configuration.
+ */
+export async function loadConfigFile(configPath: string): Promise<Config> {
+	const resolvedPath = path.resolve(configPath)
+	const configDir = path.dirname(resolvedPath)
+
+	let config: unknown
+	if (path.basename(resolvedPath) === 'package.json') {
+		const packageJson = JSON.parse(await fs.readFile(resolvedPath, 'utf-8'))
+		config = packageJson[packageJsonKey]
+	} else if (resolvedPath.endsWith('.json')) {
+		config = JSON.parse(await fs.readFile(resolvedPath, 'utf-8'))
+	} else if (/\.[cm]?ts$/.test(resolvedPath)) {
+		config = await importTypeScriptModule(resolvedPath)
+	} else {
+		const module = await import(pathToFileURL(resolvedPath).href)
+		config = module.default
+	}
+
+	if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+		throw new Error(
+			`Invalid config file "${resolvedPath}": expected an object of options`
+		)
+	}
+
+	const unsupportedKeys = unsupportedConfigKeys.filter(
+		(key): boolean => key in config
+	)
+	if (unsupportedKeys.length > 0) {
+		throw new Error(
+			`Invalid config file "${resolvedPath}": ${unsupportedKeys.map((key): string => `"${key}"`).join(', ')} cannot be set in a config file`
+		)
+	}
+
+	const {
+		overrides,
+		tsconfig,
+		ignoreFiles,
+		cacheLocation,
+		outputPatch,
+		...rest
+	} = config as Config
+	if (overrides !== undefined && !Array.isArray(overrides)) {
+		throw new Error(
+			`Invalid config file "${resolvedPath}": "overrides" must be an array`
+		)
+	}
+
+	return {
+		...rest,
+		...(tsconfig && { tsconfig: path.resolve(configDir, tsconfig) }),
+		...(cacheLocation && {
+			cacheLocation: path.resolve(configDir, cacheLocation)
+		}),
+		...(outputPatch && { outputPatch: path.resolve(configDir, outputPatch) }),
+		// Absolute patterns are matched against the absolute paths of the files, wherever the processed paths are
+		...(ignoreFiles && {
+			ignoreFiles: ignoreFiles.map((pattern): string =>
+				path.isAbsolute(pattern)
+					? pattern
+					: path.posix.join(fg.convertPathToPattern(configDir), pattern)
+			)
+		}),
+		...(overrides && {
+			overrides: overrides.map(
+				(override): ConfigOverride => ({
+					...override,
+					basePath: path.resolve(configDir, override.basePath ?? '.')
+				})
+			)
+		})
+	}
+}
+
+/**
+ * Merges the given options with the configuration file and the default options.
+ * Options that are undefined fall back to the configuration file, then to the
+ * defaults. Overrides from the configuration file come before the given ones.
+ * @param options - The options given on the command line or by the caller.
+ * @returns The complete options.
+ */
+export async function resolveOptions(
+	options: Partial<Options>
+): Promise<Options> {
+	// The configuration file is looked up from the first path, or from the path of the code read from stdin
+	const [startPath = '.'] = [
+		(options.stdin && options.stdinFilepath) ||
+			(options.path ?? defaultOptions.path)
+	].flat()
+	// With stdin, stdout is reserved for the annotated code
+	const defaultLogger = options.stdin
+		? createConsoleLogger('info', 'stderr')
+		: defaultOptions.logger
+	const logger = options.logger ?? defaultLogger
+	const configPath = options.config
+		? path.resolve(options.config)
+		: await findConfigFile(startPath, logger)
+
+	let config: Config = {}
+	if (configPath) {
+		logger.info(`Using config file: "${configPath}"`)
+		config = await loadConfigFile(configPath)
+	}
+
+	const definedOptions = Object.fromEntries(
+		Object.entries(options).filter(([, value]): boolean => value !== undefined)
+	) as Partial<Options>
+
+	return {
+		...defaultOptions,
+		...config,
+		...definedOptions,
+		logger,
+		config: configPath,
+		overrides: [...(config.overrides ?? []), ...(options.overrides ?? [])]
+	}
+}
+
+/**
+ * Expands the file patterns of each override to the files they match.
+ * @param overrides - The overrides to resolve.
+ * @returns The overrides with their matching files.
+ */
+export async function resolveOverrides(
+	overrides: ConfigOverride[]
+): Promise<ResolvedOverride[]> {
+	return Promise.all(
+		overrides.map(
+			async ({
+				files,
+				excludedFiles = [],
+				basePath,
+				...fileOptions
+			}): Promise<ResolvedOverride> => {
+				const matchedFiles = await fg(files, {
+					cwd: basePath ?? process.cwd(),
+					ignore: ['**/node_modules/**'].concat(excludedFiles),
+					absolute: true,
+					dot: true
+				})
+
+				return { files: new Set(matchedFiles), options: fileOptions }
+			}
+		)
+	)
+}
+
+/**
+ * Applies every override matching the file on top of the options.
+ * @param options - The options for the whole run.
+ * @param overrides - The resolved overrides.
+ * @param filePath - The absolute path of the file.
+ * @returns The options to use for the file.
+ */
+export function getFileOptions(
+	options: Options,
+	overrides: ResolvedOverride[],
+	filePath: string
+): Options {
+	return overrides.reduce(
+		(fileOptions, override): Options =>
+			override.files.has(filePath)
+				? { ...fileOptions, ...override.options }
+				: fileOptions,
+		options
+	)
+}
+
+/**
+ * Checks whether a file exists.
+ * @param filePath - The path to check.
+ */
+async function fileExists(filePath: string): Promise<boolean> {
+	try {
+		const stats = await fs.stat(filePath)
+		return stats.isFile()
+	} catch {
+		return false
+	}
+}
+
+/**
+ * Imports a TypeScript module through tsx, which transpiles it in memory, so
+ * that its own imports resolve the same way and no file is written next to it.
+ * @param filePath - The path of the TypeScript module.
+ * @returns The default export of the module.
+ */
+async function importTypeScriptModule(filePath: string): Promise<unknown> {
+	const module = await tsImport(pathToFileURL(filePath).href, import.meta.url)
+	const exports: unknown = module.default
+	// Outside of ES module packages, the module is loaded as CommonJS and its default export is nested
+	if (
+		typeof exports === 'object' &&
+		exports !== null &&
+		'__esModule' in exports &&
+		'default' in exports
+	) {
+		return exports.default
+	}
+	return exports
+}
@@ -0,0 +1,184 @@
+import { Node, Project, type SourceFile } from 'ts-morph'
+import { isAnnotatableFunction } from './utils.js'
+
+/**
+ * Emits the declaration file of a source file in memory, as `tsc --declaration`
+ * would write it. The Project needs the `declaration` compiler option.
+ * @param sourceFile - The source file.
+ * @returns The text of the declaration file, or an empty string if nothing is emitted.
+ */
+export function getDeclarationOutput(sourceFile: SourceFile): string {
+	const [declarationFile] = sourceFile
+		.getEmitOutput({ emitOnlyDtsFiles: true })
+		.getOutputFiles()
+	return declarationFile?.getText() ?? ''
+}
+
+/**
+ * Finds the annotated functions whose declarations are emitted differently
+ * than before they were annotated. Declarations are compared one by one, so
+ * that a function is blamed for the declaration it is part of, such as the
+ * exported function itself, the exported variable it is assigned to or the
+ * class member it is declared in. When changed declarations do not contain any
+ * annotated function, they belong to all annotated functions.
+ * @param sourceFile - The annotated source file.
+ * @param annotatedIndices - The indices of the annotated functions, in the order of `isAnnotatableFunction` nodes.
+ * @param originalOutput - The declaration output before annotating.
+ * @returns The descriptions of the changed declarations by the index of the function.
+ */
+export function findChangedDeclarations(
+	sourceFile: SourceFile,
+	annotatedIndices: Set<number>,
+	originalOutput: string
+): Map<number, string[]> {
+	const changedDeclarations = new Map<number, string[]>()
+	const output = getDeclarationOutput(sourceFile)
+	if (output === originalOutput) {
+		return changedDeclarations
+	}
+
+	const originalDeclarations = getDeclarations(originalOutput)
+	const changes = new Map<string, string>()
+	for (const [key, text] of getDeclarations(output)) {
+		const originalText = originalDeclarations.get(key)
+		if (originalText !== undefined && originalText !== text) {
+			changes.set(
+				key,
+				`Declaration changed from "${originalText}" to "${text}"`
+			)
+		}
+	}
+
+	let index = 0
+	sourceFile.forEachDescendant((node): void => {
+		if (!isAnnotatableFunction(node)) {
+			return
+		}
+
+		const functionIndex = index++
+		const key = getEnclosingDeclarationKey(node)
+		const change = key === undefined ? undefined : changes.get(key)
+		if (annotatedIndices.has(functionIndex) && change) {
+			changedDeclarations.set(functionIndex, [change])
+		}
+	})
+
+	if (changedDeclarations.size === 0 && changes.size > 0) {
+		for (const functionIndex of annotatedIndices) {
+			changedDeclarations.set(functionIndex, [...changes.values()])
+		}
+	}
+
+	return changedDeclarations
+}
+
+/**
+ * Splits a declaration file into the declarations that make up the API of the
+ * module. Types that are written as `import("...").Name` in one output and
+ * imported in the other compare as equal.
+ * @param declarationOutput - The text of the declaration file.
+ * @returns The normalized text of each declaration by its key.
+ */
+function getDeclarations(declarationOutput: string): Map<string, string> {
+	const declarationFile = new Project({
+		useInMemoryFileSystem: true
+	}).createSourceFile('declarations.d.ts', declarationOutput)
+
+	const declarations = new Map<string, string>()
+	declarationFile.forEachDescendant((node): void => {
+		const key = getDeclarationKey(node)
+		if (key === undefined) {
+			return
+		}
+
+		// Overloads share a key
+		const text = node
+			.getText()
+			.replace(/import\("[^"]*"\)\./g, '')
+			.replace(/\s+/g, ' ')
+		const previousText = declarations.get(key)
+		declarations.set(key, previousText ? `${previousText} ${text}` : text)
+	})
+
+	return declarations
+}
+
+/**
+ * Gets the key of the declaration a function is part of.
+ * @param node - The function.
+ * @returns The key of the innermost declaration of the module API around the function, if any.
+ */
+function getEnclosingDeclarationKey(node: Node): string | undefined {
+	for (const current of [node, ...node.getAncestors()]) {
+		const key = getDeclarationKey(current)
+		if (key !== undefined) {
+			return key
+		}
+	}
+	return undefined
+}
+
+/**
+ * Gets a key that identifies a declaration of the module API in both the
+ * source file and its declaration file: a function, variable or default
+ * export of the module or of a namespace, or a member of a class declared
+ * there.
+ * @param node - The node.
+ * @returns The key, such as "Service.load", or undefined if the node is not such a declaration.
+ */
+function getDeclarationKey(node: Node): string | undefined {
+	if (Node.isExportAssignment(node) && isModuleLevel(node)) {
+		return getNamespacePrefix(node) + 'default'
+	}
+
+	if (Node.isFunctionDeclaration(node) && isModuleLevel(node)) {
+		return getNamespacePrefix(node) + (node.getName() ?? 'default')
+	}
+
+	if (Node.isVariableDeclaration(node)) {
+		const statement = node.getVariableStatement()
+		return statement && isModuleLevel(statement)
+			? getNamespacePrefix(node) + node.getName()
+			: undefined
+	}
+
+	if (
+		Node.isMethodDeclaration(node) ||
+		Node.isGetAccessorDeclaration(node) ||
+		Node.isSetAccessorDeclaration(node) ||
+		Node.isPropertyDeclaration(node)
+	) {
+		const classDeclaration = node.getParent()
+		return Node.isClassDeclaration(classDeclaration) &&
+			isModuleLevel(classDeclaration)
+			? `${getNamespacePrefix(node)}${classDeclaration.getName() ?? 'default'}.${node.getName()}`
+			: undefined
+	}
+
+	return undefined
+}
+
+/**
+ * Checks whether a statement is declared in the module or a namespace, rather
+ * than inside a function.
+ * @param statement - The statement.
+ */
+function isModuleLevel(statement: Node): boolean {
+	const parent = statement.getParent()
+	return Node.isSourceFile(parent) || Node.isModuleBlock(parent)
+}
+
+/**
+ * Gets the names of the namespaces around a node.
+ * @param node - The node.
+ * @returns The names joined with dots, followed by a dot, or an empty string outside namespaces.
+ */
+function getNamespacePrefix(node: Node): string {
+	return node
+		.getAncestors()
+		.filter(Node.isModuleDeclaration)
+		.reduce(
+			(prefix, namespace): string => `${namespace.getName()}.${prefix}`,
+			''
+		)
+}
@@ -0,0 +1,176 @@
+import path from 'node:path'
+import { createTwoFilesPatch, diffLines } from 'diff'
+
+/**
+ * A replacement of a span of a text, in the shape of the text changes of the
+ * TypeScript language service.
+ */
+export type TextChange = {
+	span: { start: number; length: number }
+	newText: string
+}
+
+const colors = {
+	bold: '\x1b[1m',
+	red: '\x1b[31m',
+	green: '\x1b[32m',
+	cyan: '\x1b[36m',
+	reset: '\x1b[0m'
+}
+
+/**
+ * Creates a git-style unified diff of a file, which can be applied with `git apply`.
+ * @param filePath - The absolute path of the file.
+ * @param rootPath - The directory the paths in the patch are relative to.
+ * @param originalText - The text of the file before the changes.
+ * @param updatedText - The text of the file after the changes.
+ * @returns The patch, or an empty string if the texts are equal.
+ */
+export function createFilePatch(
+	filePath: string,
+	rootPath: string,
+	originalText: string,
+	updatedText: string
+): string {
+	if (originalText === updatedText) {
+		return ''
+	}
+
+	const relativePath = path
+		.relative(rootPath, filePath)
+		.split(path.sep)
+		.join(path.posix.sep)
+
+	const patch = createTwoFilesPatch(
+		`a/${relativePath}`,
+		`b/${relativePath}`,
+		originalText,
+		updatedText
+	)
+
+	// Replace the separator line of the diff package with a git header
+	return patch.replace(
+		/^=+\n/,
+		`diff --git a/${relativePath} b/${relativePath}\n`
+	)
+}
+
+/**
+ * Gets the changes that turn a text into the updated text, so that an editor
+ * only replaces what changed and keeps the cursor and folds elsewhere.
+ * @param originalText - The text before the changes.
+ * @param updatedText - The text after the changes.
+ * @returns The changes, in order and relative to the original text.
+ */
+export function getTextChanges(
+	originalText: string,
+	updatedText: string
+): TextChange[] {
+	const changes: TextChange[] = []
+	let position = 0
+
+	// Consecutive changed lines form one change, which is narrowed to the text that differs
+	for (const part of diffLines(originalText, updatedText)) {
+		if (!part.added && !part.removed) {
+			position += part.value.length
+			continue
+		}
+
+		const lastChange = changes.at(-1)
+		const change =
+			lastChange && lastChange.span.start + lastChange.span.length === position
+				? lastChange
+				: { span: { start: position, length: 0 }, newText: '' }
+		if (change !== lastChange) {
+			changes.push(change)
+		}
+
+		if (part.removed) {
+			change.span.length += part.value.length
+			position += part.value.length
+		} else {
+			change.newText += part.value
+		}
+	}
+
+	return changes.map(
+		(change): TextChange =>
+			narrowTextChange(
+				change,
+				originalText.slice(
+					change.span.start,
+					change.span.start + change.span.length
+				)
+			)
+	)
+}
+
+/**
+ * Narrows a change to the text that differs, leaving out the beginning and
+ * end it has in common with the text it replaces.
+ * @param change - The change.
+ * @param replacedText - The text the change replaces.
+ * @returns The narrowed change.
+ */
+function narrowTextChange(
+	change: TextChange,
+	replacedText: string
+): TextChange {
+	const { newText } = change
+	const maxLength = Math.min(newText.length, replacedText.length)
+
+	let prefixLength = 0
+	while (
+		prefixLength < maxLength &&
+		newText[prefixLength] === replacedText[prefixLength]
+	) {
+		prefixLength++
+	}
+
+	let suffixLength = 0
+	while (
+		suffixLength < maxLength - prefixLength &&
+		newText[newText.length - 1 - suffixLength] ===
+			replacedText[replacedText.length - 1 - suffixLength]
+	) {
+		suffixLength++
+	}
+
+	return {
+		span: {
+			start: change.span.start + prefixLength,
+			length: replacedText.length - prefixLength - suffixLength
+		},
+		newText: newText.slice(prefixLength, newText.length - suffixLength)
+	}
+}
+
+/**
+ * Colors the lines of a unified diff for terminal output.
+ * @param patch - The unified diff.
+ * @returns The colored diff.
+ */
+export function colorizePatch(patch: string): string {
+	return patch
+		.split('\n')
+		.map((line): string => {
+			if (
+				line.startsWith('diff --git') ||
+				line.startsWith('--- ') ||
+				line.startsWith('+++ ')
+			) {
+				return `${colors.bold}${line}${colors.reset}`
+			}
+			if (line.startsWith('@@')) {
+				return `${colors.cyan}${line}${colors.reset}`
+			}
+			if (line.startsWith('+')) {
+				return `${colors.green}${line}${colors.reset}`
+			}
+			if (line.startsWith('-')) {
+				return `${colors.red}${line}${colors.reset}`
+			}
+			return line
+		})
+		.join('\n')
+}
@@ -0,0 +1,122 @@
+import { type Expression, Node, Scope, type SourceFile } from 'ts-morph'
+
+/**
+ * Collects the functions that are part of the API of a module, like
+ * typescript-eslint's `explicit-module-boundary-types` does:
+ * - exported functions, including `export default` and `export { name }`
+ * - functions assigned to exported variables
+ * - public and protected methods, get accessors and function-valued
+ *   properties of exported classes
+ * - the exported functions of exported namespaces
+ *
+ * Functions nested inside them, such as local helpers and closures, are not
+ * collected.
+ * @param sourceFile - The source file.
+ * @returns The exported functions of the source file.
+ */
+export function getExportedFunctions(sourceFile: SourceFile): Set<Node> {
+	const exportedFunctions = new Set<Node>()
+
+	for (const declarations of sourceFile.getExportedDeclarations().values()) {
+		for (const declaration of declarations) {
+			// Declarations re-exported from other files are annotated in those files
+			if (declaration.getSourceFile() === sourceFile) {
+				addExportedFunctions(declaration, exportedFunctions)
+			}
+		}
+	}
+
+	return exportedFunctions
+}
+
+/**
+ * Adds the functions an exported declaration consists of.
+ * @param declaration - The exported declaration.
+ * @param exportedFunctions - The set to add the functions to.
+ */
+function addExportedFunctions(
+	declaration: Node,
+	exportedFunctions: Set<Node>
+): void {
+	if (
+		Node.isFunctionDeclaration(declaration) ||
+		Node.isFunctionExpression(declaration) ||
+		Node.isArrowFunction(declaration)
+	) {
+		exportedFunctions.add(declaration)
+		return
+	}
+
+	if (Node.isVariableDeclaration(declaration)) {
+		addFunctionInitializer(declaration.getInitializer(), exportedFunctions)
+		return
+	}
+
+	if (
+		Node.isClassDeclaration(declaration) ||
+		Node.isClassExpression(declaration)
+	) {
+		for (const member of declaration.getMembers()) {
+			if (
+				!(
+					Node.isMethodDeclaration(member) ||
+					Node.isGetAccessorDeclaration(member) ||
+					Node.isPropertyDeclaration(member)
+				) ||
+				member.getScope() === Scope.Private ||
+				Node.isPrivateIdentifier(member.getNameNode())
+			) {
+				continue
+			}
+
+			if (Node.isPropertyDeclaration(member)) {
+				addFunctionInitializer(member.getInitializer(), exportedFunctions)
+			} else {
+				exportedFunctions.add(member)
+			}
+		}
+		return
+	}
+
+	if (Node.isModuleDeclaration(declaration)) {
+		for (const statement of declaration.getStatements()) {
+			if (!Node.isExportable(statement) || !statement.isExported()) {
+				continue
+			}
+
+			const declarations = Node.isVariableStatement(statement)
+				? statement.getDeclarations()
+				: [statement]
+			for (const nestedDeclaration of declarations) {
+				addExportedFunctions(nestedDeclaration, exportedFunctions)
+			}
+		}
+	}
+}
+
+/**
+ * Adds the function a variable or property is initialized with, looking
+ * through parentheses and type assertions.
+ * @param initializer - The initializer of the variable or property.
+ * @param exportedFunctions - The set to add the function to.
+ */
+function addFunctionInitializer(
+	initializer: Expression | undefined,
+	exportedFunctions: Set<Node>
+): void {
+	let expression: Node | undefined = initializer
+	while (
+		Node.isParenthesizedExpression(expression) ||
+		Node.isAsExpression(expression) ||
+		Node.isSatisfiesExpression(expression)
+	) {
+		expression = expression.getExpression()
+	}
+
+	if (
+		Node.isFunctionExpression(expression) ||
+		Node.isArrowFunction(expression)
+	) {
+		exportedFunctions.add(expression)
+	}
+}
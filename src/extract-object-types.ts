@@ -0,0 +1,477 @@
+import {
+	Node,
+	type SourceFile,
+	type Statement,
+	SyntaxKind,
+	ts,
+	type Type
+} from 'ts-morph'
+import {
+	type PendingImports,
+	resolveSymbol,
+	rewriteImportTypes
+} from './imports.js'
+import type { ExtractedTypeKind } from './options.js'
+import { typeFormatFlags } from './utils.js'
+
+type ObjectTypeDeclaration = {
+	statement: Statement
+	name: string
+	text: string
+}
+
+/**
+ * The named object types about to be added to a source file. They are inserted
+ * after all functions of the file are annotated, so that the positions of the
+ * annotations stay the same.
+ */
+export type PendingObjectTypes = {
+	/** The names used in the source file, collected on the first extraction. */
+	usedNames: Set<string> | undefined
+	declarations: ObjectTypeDeclaration[]
+}
+
+/**
+ * Creates the pending object types of a source file.
+ * @returns The empty pending object types.
+ */
+export function createPendingObjectTypes(): PendingObjectTypes {
+	return { usedNames: undefined, declarations: [] }
+}
+
+/**
+ * Extracts an anonymous object return type, or the object a promise resolves
+ * to, into a named type declared next to the top-level statement containing
+ * the function. The name is derived from the function name, such as
+ * `GetUserResult` for `getUser`, with a number appended when it is taken.
+ * @param node - The function the return type belongs to.
+ * @param type - The inferred return type of the function.
+ * @param functionName - The name of the function.
+ * @param kind - Whether to declare a type alias or an interface.
+ * @param pendingObjectTypes - The object types about to be added to the file.
+ * @param pendingImports - The imports about to be added to the file.
+ * @returns The return type referring to the named type, or undefined if the return type cannot be extracted.
+ */
+export function extractObjectType(
+	node: Node,
+	type: Type,
+	functionName: string,
+	kind: ExtractedTypeKind,
+	pendingObjectTypes: PendingObjectTypes,
+	pendingImports: PendingImports
+): string | undefined {
+	const promisedType = getPromisedType(type)
+	const objectType = promisedType ?? type
+	if (!isAnonymousObjectType(objectType)) {
+		return undefined
+	}
+
+	return declareExtractedType(
+		node,
+		objectType,
+		promisedType !== undefined,
+		functionName,
+		kind,
+		pendingObjectTypes,
+		pendingImports
+	)
+}
+
+/**
+ * Extracts any return type, or the type a promise resolves to, into a type
+ * alias named after the function, like `extractObjectType` does for objects.
+ * @param node - The function the return type belongs to.
+ * @param type - The inferred return type of the function.
+ * @param functionName - The name of the function.
+ * @param pendingObjectTypes - The types about to be added to the file.
+ * @param pendingImports - The imports about to be added to the file.
+ * @returns The return type referring to the type alias, or undefined if the return type cannot be extracted.
+ */
+export function extractTypeAlias(
+	node: Node,
+	type: Type,
+	functionName: string,
+	pendingObjectTypes: PendingObjectTypes,
+	pendingImports: PendingImports
+): string | undefined {
+	const promisedType = getPromisedType(type)
+
+	return declareExtractedType(
+		node,
+		promisedType ?? type,
+		promisedType !== undefined,
+		functionName,
+		'type',
+		pendingObjectTypes,
+		pendingImports
+	)
+}
+
+/**
+ * Adds the pending object types to the source file, each one right before the
+ * statement containing the function that returns it, separated by blank lines.
+ * @param sourceFile - The source file.
+ * @param pendingObjectTypes - The object types to add.
+ * @param pendingImports - The imports to add the types used by the object types to.
+ */
+export function addObjectTypes(
+	sourceFile: SourceFile,
+	pendingObjectTypes: PendingObjectTypes,
+	pendingImports: PendingImports
+): void {
+	if (pendingObjectTypes.declarations.length === 0) {
+		return
+	}
+
+	// Group the declarations by the line they are inserted at
+	const text = sourceFile.getFullText()
+	const insertions = new Map<number, string[]>()
+	for (const {
+		statement,
+		text: declarationText
+	} of pendingObjectTypes.declarations) {
+		const start = statement.getStart(true)
+		const lineStart = text.lastIndexOf('\n', start - 1) + 1
+		const textBeforeStart = text.slice(lineStart, start)
+		const startsLine = /^[ \t]*$/.test(textBeforeStart)
+		const indentation = startsLine ? textBeforeStart : ''
+		const position = startsLine ? lineStart : start
+
+		const indentedText = declarationText
+			.split('\n')
+			.map((line): string => (line ? `${indentation}${line}` : line))
+			.join('\n')
+		insertions.set(position, [
+			...(insertions.get(position) ?? []),
+			indentedText
+		])
+	}
+
+	// Insert from the end, so that the positions before stay the same
+	let updatedText = text
+	for (const [position, declarationTexts] of [...insertions].toSorted(
+		([a], [b]): number => b - a
+	)) {
+		const textBefore = updatedText.slice(0, position)
+		const blankLineBefore =
+			position > 0 && !/(^|\n[ \t]*\n|\{[ \t]*\n)$/.test(textBefore)
+		updatedText = `${textBefore}${blankLineBefore ? '\n' : ''}${declarationTexts.join('\n\n')}\n\n${updatedText.slice(position)}`
+	}
+	sourceFile.replaceWithText(updatedText)
+
+	const names = new Set(
+		pendingObjectTypes.declarations.map(({ name }): string => name)
+	)
+	for (const declaration of sourceFile.getDescendants()) {
+		if (
+			(Node.isTypeAliasDeclaration(declaration) ||
+				Node.isInterfaceDeclaration(declaration)) &&
+			names.has(declaration.getName())
+		) {
+			rewriteImportTypes(declaration, pendingImports)
+		}
+	}
+}
+
+/**
+ * Declares a type next to the top-level statement containing a function.
+ * @param node - The function the type is extracted from.
+ * @param type - The type to declare.
+ * @param isPromised - Whether the function returns a promise of the type.
+ * @param functionName - The name of the function.
+ * @param kind - Whether to declare a type alias or an interface.
+ * @param pendingObjectTypes - The types about to be added to the file.
+ * @param pendingImports - The imports about to be added to the file.
+ * @returns The return type referring to the declared type, or undefined if it cannot be declared.
+ */
+function declareExtractedType(
+	node: Node,
+	type: Type,
+	isPromised: boolean,
+	functionName: string,
+	kind: ExtractedTypeKind,
+	pendingObjectTypes: PendingObjectTypes,
+	pendingImports: PendingImports
+): string | undefined {
+	const typeText = type.getText(node, typeFormatFlags)
+	const members = getTypeLiteralMembers(typeText)
+	// Only functions named by an identifier, not "<anonymous>" or computed names
+	const baseName = /^#?[a-zA-Z_$][\w$]*$/.test(functionName)
+		? toPascalCase(functionName)
+		: ''
+	const statement = getTopLevelStatement(node)
+	if (
+		(kind === 'interface' && !members) ||
+		!baseName ||
+		!statement ||
+		usesLocalTypeParameters(node, typeText) ||
+		usesLocalDeclarations(statement, typeText)
+	) {
+		return undefined
+	}
+
+	const name = getUniqueName(
+		statement,
+		`${baseName}Result`,
+		pendingObjectTypes,
+		pendingImports
+	)
+
+	const isExported = Node.isExportable(statement) && statement.isExported()
+	pendingObjectTypes.declarations.push({
+		statement,
+		name,
+		text: getDeclarationText(
+			statement.getSourceFile(),
+			kind,
+			name,
+			members ?? typeText,
+			isExported
+		)
+	})
+
+	return isPromised ? `Promise<${name}>` : name
+}
+
+/**
+ * Gets the type a promise resolves to.
+ * @param type - The type.
+ * @returns The resolved type, or undefined if the type is not a promise.
+ */
+function getPromisedType(type: Type): Type | undefined {
+	const typeArguments = type.getTypeArguments()
+	return type.getSymbol()?.getName() === 'Promise' && typeArguments.length === 1
+		? typeArguments[0]
+		: undefined
+}
+
+/**
+ * Checks whether a type is an object type without a name, excluding function
+ * types, which read better inline.
+ * @param type - The type.
+ */
+function isAnonymousObjectType(type: Type): boolean {
+	return (
+		type.isObject() &&
+		type.isAnonymous() &&
+		type.getCallSignatures().length === 0 &&
+		type.getConstructSignatures().length === 0
+	)
+}
+
+/**
+ * Gets the statement of the source file or namespace that contains a node.
+ * @param node - The node.
+ * @returns The statement, or undefined if the node is not inside one.
+ */
+function getTopLevelStatement(node: Node): Statement | undefined {
+	let current = node
+	let parent = node.getParent()
+	while (parent && !Node.isSourceFile(parent) && !Node.isModuleBlock(parent)) {
+		current = parent
+		parent = parent.getParent()
+	}
+
+	return parent && Node.isStatement(current) ? current : undefined
+}
+
+/**
+ * Checks whether a type refers to `this` or to type parameters of the function
+ * or its containers, which are not in scope next to the top-level statement.
+ * @param node - The function.
+ * @param typeText - The text of the type.
+ */
+function usesLocalTypeParameters(node: Node, typeText: string): boolean {
+	const typeParameterNames = [node, ...node.getAncestors()].flatMap(
+		(ancestor): string[] =>
+			Node.isTypeParametered(ancestor)
+				? ancestor
+						.getTypeParameters()
+						.map((typeParameter): string => typeParameter.getName())
+				: []
+	)
+
+	return ['this', ...typeParameterNames].some((name): boolean =>
+		new RegExp(`(?<![\\w$.])${name.replace(/\$/g, '\\$')}(?![\\w$])`).test(
+			typeText
+		)
+	)
+}
+
+/**
+ * Checks whether a type refers to types, or with `typeof` to values, declared
+ * inside the top-level statement, such as an interface declared in the body of
+ * the function, which are not in scope next to the statement.
+ * @param statement - The top-level statement containing the function.
+ * @param typeText - The text of the type.
+ */
+function usesLocalDeclarations(
+	statement: Statement,
+	typeText: string
+): boolean {
+	const typeNames = new Set<string>()
+	const valueNames = new Set<string>()
+	for (const declaration of statement.getDescendants()) {
+		if (
+			Node.isTypeAliasDeclaration(declaration) ||
+			Node.isInterfaceDeclaration(declaration)
+		) {
+			typeNames.add(declaration.getName())
+		} else if (
+			Node.isClassDeclaration(declaration) ||
+			Node.isEnumDeclaration(declaration)
+		) {
+			const name = declaration.getName()
+			if (name) {
+				typeNames.add(name)
+				valueNames.add(name)
+			}
+		} else if (
+			Node.isFunctionDeclaration(declaration) ||
+			Node.isVariableDeclaration(declaration) ||
+			Node.isParameterDeclaration(declaration)
+		) {
+			// Destructuring patterns declare no single name to refer to
+			const nameNode = declaration.getNameNode()
+			if (nameNode && Node.isIdentifier(nameNode)) {
+				valueNames.add(nameNode.getText())
+			}
+		}
+	}
+
+	return (
+		[...typeNames].some((name): boolean =>
+			new RegExp(`(?<![\\w$.])${name.replace(/\$/g, '\\$')}(?![\\w$:?])`).test(
+				typeText
+			)
+		) ||
+		[...valueNames].some((name): boolean =>
+			new RegExp(`\\btypeof ${name.replace(/\$/g, '\\$')}(?![\\w$])`).test(
+				typeText
+			)
+		)
+	)
+}
+
+/**
+ * Converts a function name, such as `getUser` or `get_user`, to PascalCase.
+ * @param name - The function name.
+ * @returns The name in PascalCase.
+ */
+function toPascalCase(name: string): string {
+	return name
+		.split(/[^a-zA-Z0-9]+/)
+		.filter(Boolean)
+		.map((word): string => word.charAt(0).toUpperCase() + word.slice(1))
+		.join('')
+		.replace(/^\d+/, '')
+}
+
+/**
+ * Gets a name that is not used in the source file, or in scope at the
+ * statement, by appending a number to the preferred name. The name is reserved
+ * for the following extractions.
+ * @param statement - The statement the type is declared next to.
+ * @param preferredName - The name to use if it is free.
+ * @param pendingObjectTypes - The object types about to be added to the file.
+ * @param pendingImports - The imports about to be added to the file.
+ * @returns The free name.
+ */
+function getUniqueName(
+	statement: Statement,
+	preferredName: string,
+	pendingObjectTypes: PendingObjectTypes,
+	pendingImports: PendingImports
+): string {
+	pendingObjectTypes.usedNames ??= new Set(
+		statement
+			.getSourceFile()
+			.getDescendantsOfKind(SyntaxKind.Identifier)
+			.map((identifier): string => identifier.getText())
+	)
+
+	let name = preferredName
+	for (let suffix = 2; ; suffix++) {
+		if (
+			!pendingObjectTypes.usedNames.has(name) &&
+			!pendingImports.has(name) &&
+			!resolveSymbol(statement, name)
+		) {
+			pendingObjectTypes.usedNames.add(name)
+			return name
+		}
+		name = `${preferredName}${suffix}`
+	}
+}
+
+/**
+ * Writes the declaration of a named type, with one member per line for object
+ * types, in the indentation and semicolon style of the source file.
+ * @param sourceFile - The source file the declaration is added to.
+ * @param kind - Whether to declare a type alias or an interface.
+ * @param name - The name of the type.
+ * @param type - The members of the object type, or the text of any other type.
+ * @param isExported - Whether to export the type.
+ * @returns The text of the declaration.
+ */
+function getDeclarationText(
+	sourceFile: SourceFile,
+	kind: ExtractedTypeKind,
+	name: string,
+	type: string[] | string,
+	isExported: boolean
+): string {
+	const indentation =
+		/^([ \t]+)[^\s*]/m.exec(sourceFile.getFullText())?.[1] ??
+		sourceFile.getProject().manipulationSettings.getIndentationText()
+	const semicolon =
+		sourceFile
+			.getFirstDescendant(
+				(node): boolean =>
+					Node.isVariableStatement(node) ||
+					Node.isImportDeclaration(node) ||
+					Node.isExpressionStatement(node) ||
+					Node.isReturnStatement(node)
+			)
+			?.getText()
+			.endsWith(';') === false
+			? ''
+			: ';'
+
+	let body = '{}'
+	if (typeof type === 'string') {
+		body = type
+	} else if (type.length > 0) {
+		body = `{\n${type.map((member): string => `${indentation}${member}${semicolon}`).join('\n')}\n}`
+	}
+	const exportKeyword = isExported ? 'export ' : ''
+
+	return kind === 'interface'
+		? `${exportKeyword}interface ${name} ${body}`
+		: `${exportKeyword}type ${name} = ${body}${semicolon}`
+}
+
+/**
+ * Splits the text of an object type into the texts of its members.
+ * @param typeText - The text of the type, such as `{ id: string; name: string; }`.
+ * @returns The members without their separators, or undefined if the type is not an object type.
+ */
+function getTypeLiteralMembers(typeText: string): string[] | undefined {
+	const sourceFile = ts.createSourceFile(
+		'object-type.ts',
+		`type ObjectType = ${typeText}`,
+		ts.ScriptTarget.Latest
+	)
+	const [statement] = sourceFile.statements
+	if (
+		!statement ||
+		!ts.isTypeAliasDeclaration(statement) ||
+		!ts.isTypeLiteralNode(statement.type)
+	) {
+		return undefined
+	}
+
+	return statement.type.members.map((member): string =>
+		member.getText(sourceFile).replace(/[;,]$/, '').trim()
+	)
+}
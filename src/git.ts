@@ -0,0 +1,274 @@
+import { execFile } from 'node:child_process'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { promisify } from 'node:util'
+import type { Node } from 'ts-morph'
+import type { Options } from './options.js'
+
+const execFileAsync = promisify(execFile)
+
+/**
+ * The options that limit processing to the files git reports as changed.
+ */
+export type GitSelection = Pick<Options, 'since' | 'staged' | 'changed'>
+
+/**
+ * A range of changed lines, 1-based and inclusive. A range that ends right
+ * before it starts marks lines that were deleted between `end` and `start`.
+ */
+export type LineRange = { start: number; end: number }
+
+/**
+ * Checks whether any of the git options is given.
+ * @param selection - The git options.
+ */
+export function hasGitSelection(selection: GitSelection): boolean {
+	return selection.since !== undefined || selection.staged || selection.changed
+}
+
+/**
+ * Gets the files git reports for the given options, combined:
+ * - `since`: files changed since the commit where the current branch forked from the ref
+ * - `staged`: files in the index
+ * - `changed`: modified and untracked files in the working tree
+ *
+ * Deleted files are left out.
+ * @param repoRoot - The root directory of the repository.
+ * @param selection - The git options.
+ * @returns The absolute paths of the files.
+ */
+export async function getGitFiles(
+	repoRoot: string,
+	selection: GitSelection
+): Promise<Set<string>> {
+	const commands: string[][] = []
+	if (selection.since !== undefined) {
+		commands.push([
+			'diff',
+			'--name-only',
+			'-z',
+			'--diff-filter=d',
+			'--merge-base',
+			selection.since,
+			'--'
+		])
+	}
+	if (selection.staged) {
+		commands.push(['diff', '--name-only', '-z', '--diff-filter=d', '--cached'])
+	}
+	if (selection.changed) {
+		commands.push(
+			['diff', '--name-only', '-z', '--diff-filter=d'],
+			['ls-files', '-z', '--others', '--exclude-standard']
+		)
+	}
+
+	const files = new Set<string>()
+	for (const args of commands) {
+		const output = await runGit(repoRoot, args)
+		for (const file of output.split('\0').filter(Boolean)) {
+			files.add(path.join(repoRoot, file))
+		}
+	}
+	return files
+}
+
+/**
+ * Gets the lines git reports as changed for the given options, combined like
+ * in `getGitFiles`. Untracked files count as changed in full.
+ * @param repoRoot - The root directory of the repository.
+ * @param selection - The git options.
+ * @returns The changed lines by the absolute paths of the files.
+ */
+export async function getChangedLines(
+	repoRoot: string,
+	selection: GitSelection
+): Promise<Map<string, LineRange[]>> {
+	const diffArgs = [
+		'-c',
+		'core.quotePath=false',
+		'diff',
+		'--unified=0',
+		'--no-prefix',
+		'--no-color',
+		'--no-ext-diff',
+		'--diff-filter=d'
+	]
+	const commands: string[][] = []
+	if (selection.since !== undefined) {
+		commands.push([...diffArgs, '--merge-base', selection.since, '--'])
+	}
+	if (selection.staged) {
+		commands.push([...diffArgs, '--cached'])
+	}
+	if (selection.changed) {
+		commands.push(diffArgs)
+	}
+
+	const changedLines = new Map<string, LineRange[]>()
+	const addRange = (file: string, range: LineRange): void => {
+		changedLines.set(file, [...(changedLines.get(file) ?? []), range])
+	}
+
+	for (const args of commands) {
+		for (const [file, range] of parseHunks(await runGit(repoRoot, args))) {
+			addRange(path.join(repoRoot, file), range)
+		}
+	}
+	if (selection.changed) {
+		const output = await runGit(repoRoot, [
+			'ls-files',
+			'-z',
+			'--others',
+			'--exclude-standard'
+		])
+		for (const file of output.split('\0').filter(Boolean)) {
+			addRange(path.join(repoRoot, file), {
+				start: 1,
+				end: Number.POSITIVE_INFINITY
+			})
+		}
+	}
+
+	return changedLines
+}
+
+/**
+ * Gets the files with changes that are not staged, including untracked files.
+ * Changes in the index are left out, since the changes of a run stay apart
+ * from them in `git diff`.
+ * @param repoRoot - The root directory of the repository.
+ * @returns The absolute paths of the files, or undefined if the directory is not a git repository.
+ */
+export async function getUnstagedFiles(
+	repoRoot: string
+): Promise<Set<string> | undefined> {
+	const isRepository = await fs.access(path.join(repoRoot, '.git')).then(
+		(): boolean => true,
+		(): boolean => false
+	)
+	if (!isRepository) {
+		return undefined
+	}
+
+	const output = await runGit(repoRoot, [
+		'status',
+		'--porcelain',
+		'-z',
+		'--untracked-files=all'
+	])
+	const entries = output.split('\0')
+	const files = new Set<string>()
+	for (let index = 0; index < entries.length; index++) {
+		const entry = entries[index]
+		if (!entry) {
+			continue
+		}
+
+		// Entries are "XY path", where Y is the status in the working tree, and "??" for untracked files
+		if (entry[1] !== ' ') {
+			files.add(path.join(repoRoot, entry.slice(3)))
+		}
+		// Renamed and copied files are followed by their original path
+		if (entry[0] === 'R' || entry[0] === 'C') {
+			index++
+		}
+	}
+	return files
+}
+
+/**
+ * Gets the changed lines of a file.
+ * @param changedLines - The changed lines of all files, if only changed lines are processed.
+ * @param file - The absolute path of the file.
+ * @returns The changed lines of the file, or undefined if all lines are processed.
+ */
+export function getFileChangedLines(
+	changedLines: Map<string, LineRange[]> | undefined,
+	file: string
+): LineRange[] | undefined {
+	return changedLines ? (changedLines.get(file) ?? []) : undefined
+}
+
+/**
+ * Checks whether a node spans any of the changed lines of its file.
+ * @param node - The node.
+ * @param changedLines - The changed lines of the file.
+ */
+export function overlapsChangedLines(
+	node: Node,
+	changedLines: LineRange[]
+): boolean {
+	const startLine = node.getStartLineNumber()
+	const endLine = node.getEndLineNumber()
+	return changedLines.some(
+		(range): boolean => startLine <= range.end && endLine >= range.start
+	)
+}
+
+/**
+ * Reads the changed line ranges of the new side of a diff with zero lines of
+ * context and no path prefixes.
+ * @param diff - The output of `git diff --unified=0 --no-prefix`.
+ * @returns The path relative to the repository root and the range of each hunk.
+ */
+function parseHunks(diff: string): [string, LineRange][] {
+	const hunks: [string, LineRange][] = []
+	let file: string | undefined
+	// Lines starting with +++ are only file names in the header, before the first hunk
+	let isInHeader = false
+
+	for (const line of diff.split('\n')) {
+		if (line.startsWith('diff --git ')) {
+			isInHeader = true
+			file = undefined
+			continue
+		}
+
+		if (isInHeader && line.startsWith('+++ ')) {
+			const filePath = line.slice('+++ '.length)
+			file = filePath.startsWith('"') ? JSON.parse(filePath) : filePath
+			continue
+		}
+
+		const match = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/.exec(line)
+		if (match) {
+			isInHeader = false
+			const start = Number(match[1])
+			const count = match[2] === undefined ? 1 : Number(match[2])
+			if (file !== undefined) {
+				hunks.push([
+					file,
+					count === 0
+						? { start: start + 1, end: start }
+						: { start, end: start + count - 1 }
+				])
+			}
+		}
+	}
+
+	return hunks
+}
+
+/**
+ * Runs a git command in the repository root.
+ * @param repoRoot - The root directory of the repository.
+ * @param args - The arguments of the git command.
+ * @returns The output of the command.
+ */
+async function runGit(repoRoot: string, args: string[]): Promise<string> {
+	try {
+		const { stdout } = await execFileAsync('git', args, {
+			cwd: repoRoot,
+			maxBuffer: 64 * 1024 * 1024
+		})
+		return stdout
+	} catch (error) {
+		const stderr =
+			error instanceof Error && 'stderr' in error ? String(error.stderr) : ''
+		throw new Error(
+			`Failed to run "git ${args.join(' ')}" in "${repoRoot}": ${stderr.trim() || String(error)}`,
+			{ cause: error }
+		)
+	}
+}
@@ -0,0 +1,718 @@
+import path from 'node:path'
+import { Node, type SourceFile, SyntaxKind, type Type, ts } from 'ts-morph'
+
+/**
+ * A declaration that can be imported by name, either from a source file or
+ * from an ambient module declared with `declare module 'name'`.
+ */
+type ImportTarget = {
+	name: string
+	sourceFile: SourceFile
+	ambientModuleName: string | undefined
+}
+
+type ExtensionStyle = 'js' | 'ts' | 'none'
+
+/**
+ * A named type import needed by the added return types.
+ */
+export type TypeImport = {
+	name: string
+	moduleSpecifier: string
+	targetSourceFile: SourceFile | undefined
+}
+
+/**
+ * Type imports by the name they bind. They are collected while the functions
+ * of a file are annotated and added afterwards, so that the positions of the
+ * functions do not move while the file is processed.
+ */
+export type PendingImports = Map<string, TypeImport>
+
+/**
+ * Collects type imports for the declarations referenced by a return type that
+ * are declared in another module and not in scope, so that the printed type
+ * compiles where it is written. Nothing is collected when one of them has no
+ * module specifier that is confirmed to export it.
+ * @param node - The function the return type is written on.
+ * @param type - The return type.
+ * @param pendingImports - The imports to add the missing imports to.
+ * @returns The name of a type that cannot be imported, or undefined if all of them can.
+ */
+export function collectMissingTypeImports(
+	node: Node,
+	type: Type,
+	pendingImports: PendingImports
+): string | undefined {
+	const sourceFile = node.getSourceFile()
+	const declarations = new Set<Node>()
+	collectTypeDeclarations(type, node, declarations, new Set())
+
+	const missingImports: TypeImport[] = []
+	for (const declaration of declarations) {
+		const target = getImportTarget(declaration)
+		if (
+			!target ||
+			target.sourceFile === sourceFile ||
+			isInScope(node, target.name, pendingImports) ||
+			missingImports.some(({ name }): boolean => name === target.name)
+		) {
+			continue
+		}
+
+		const moduleSpecifier =
+			target.ambientModuleName ??
+			getModuleSpecifier(
+				sourceFile,
+				target.sourceFile.getFilePath(),
+				target.name
+			)
+		if (moduleSpecifier === undefined) {
+			return target.name
+		}
+
+		missingImports.push({
+			name: target.name,
+			moduleSpecifier,
+			targetSourceFile: target.ambientModuleName ? undefined : target.sourceFile
+		})
+	}
+
+	for (const missingImport of missingImports) {
+		pendingImports.set(missingImport.name, missingImport)
+	}
+	return undefined
+}
+
+/**
+ * Rewrites the `import("...")` types in a type node into named type imports.
+ * The ones that cannot be rewritten, such as `typeof import("...")` or types
+ * that no package entry is confirmed to export, get a relative or package
+ * module specifier instead, so that no absolute paths are written into the
+ * source.
+ * @param typeNode - The type node, such as the return type of a function.
+ * @param pendingImports - The imports to add the rewritten imports to.
+ */
+export function rewriteImportTypes(
+	typeNode: Node,
+	pendingImports: PendingImports
+): void {
+	const sourceFile = typeNode.getSourceFile()
+	const importTypeNodes = typeNode.getDescendantsOfKind(SyntaxKind.ImportType)
+	if (Node.isImportTypeNode(typeNode)) {
+		importTypeNodes.unshift(typeNode)
+	}
+
+	// Rewrite nested import types before the ones containing them
+	for (const importTypeNode of importTypeNodes.toReversed()) {
+		const argument = importTypeNode.getArgument()
+		const literal = Node.isLiteralTypeNode(argument)
+			? argument.getLiteral()
+			: undefined
+		if (!Node.isStringLiteral(literal)) {
+			continue
+		}
+
+		const qualifier = importTypeNode.getQualifier()
+		const identifier = Node.isQualifiedName(qualifier)
+			? qualifier.getFirstDescendantByKindOrThrow(SyntaxKind.Identifier)
+			: qualifier
+		const name =
+			qualifier && identifier && !importTypeNode.compilerNode.isTypeOf
+				? identifier.getText()
+				: undefined
+
+		const specifier = literal.getLiteralValue()
+		const resolvedFilePath = resolveModulePath(sourceFile, specifier)
+		const targetFilePath = resolvedFilePath ?? specifier
+		const isFilePath =
+			resolvedFilePath !== undefined || path.isAbsolute(specifier)
+		const moduleSpecifier = isFilePath
+			? getModuleSpecifier(sourceFile, targetFilePath, name)
+			: specifier
+
+		if (qualifier && name !== undefined && moduleSpecifier !== undefined) {
+			const resolvedSymbol = resolveSymbol(typeNode, name)
+
+			if (!resolvedSymbol && !pendingImports.has(name)) {
+				pendingImports.set(name, {
+					name,
+					moduleSpecifier,
+					targetSourceFile: resolvedFilePath
+						? sourceFile.getProject().getSourceFile(resolvedFilePath)
+						: undefined
+				})
+			}
+
+			// Refer to the type by name when the name is free or already refers to it
+			if (
+				pendingImports.get(name)?.moduleSpecifier === moduleSpecifier ||
+				(resolvedSymbol !== undefined &&
+					resolvedSymbol === identifier?.getSymbol()?.compilerSymbol)
+			) {
+				const typeArguments = importTypeNode
+					.getTypeArguments()
+					.map((typeArgument): string => typeArgument.getText())
+				importTypeNode.replaceWithText(
+					typeArguments.length > 0
+						? `${qualifier.getText()}<${typeArguments.join(', ')}>`
+						: qualifier.getText()
+				)
+				continue
+			}
+		}
+
+		// The inline form is kept with a specifier that resolves to the same file
+		const inlineSpecifier =
+			(isFilePath
+				? getModuleSpecifier(sourceFile, targetFilePath)
+				: specifier) ??
+			(path.isAbsolute(specifier)
+				? getRelativeModuleSpecifier(sourceFile, targetFilePath)
+				: specifier)
+		if (inlineSpecifier !== specifier) {
+			literal.setLiteralValue(inlineSpecifier)
+		}
+	}
+}
+
+/**
+ * Adds the pending type imports to a source file.
+ * @param sourceFile - The source file.
+ * @param pendingImports - The imports to add.
+ * @returns The number of imports that were added.
+ */
+export function addTypeImports(
+	sourceFile: SourceFile,
+	pendingImports: PendingImports
+): number {
+	let addedImports = 0
+	for (const {
+		name,
+		moduleSpecifier,
+		targetSourceFile
+	} of pendingImports.values()) {
+		if (
+			addNamedTypeImport(sourceFile, name, moduleSpecifier, targetSourceFile)
+		) {
+			addedImports++
+		}
+	}
+
+	return addedImports
+}
+
+/**
+ * Adds a named type import to a source file, merging it into an existing
+ * import of the same module. Existing value imports get an inline `type`
+ * modifier when `verbatimModuleSyntax` requires it.
+ * @param sourceFile - The source file to add the import to.
+ * @param name - The name to import.
+ * @param moduleSpecifier - The module specifier to use for a new import declaration.
+ * @param targetSourceFile - The source file the module specifier resolves to, used to find existing imports written differently.
+ * @returns Whether an import was added.
+ */
+export function addNamedTypeImport(
+	sourceFile: SourceFile,
+	name: string,
+	moduleSpecifier: string,
+	targetSourceFile?: SourceFile
+): boolean {
+	const existingImport = sourceFile
+		.getImportDeclarations()
+		.find(
+			(importDeclaration): boolean =>
+				!importDeclaration.getNamespaceImport() &&
+				(importDeclaration.getModuleSpecifierValue() === moduleSpecifier ||
+					(targetSourceFile !== undefined &&
+						importDeclaration.getModuleSpecifierSourceFile() ===
+							targetSourceFile))
+		)
+
+	if (existingImport) {
+		const alreadyImported = existingImport
+			.getNamedImports()
+			.some(
+				(namedImport): boolean =>
+					(
+						namedImport.getAliasNode() ?? namedImport.getNameNode()
+					).getText() === name
+			)
+		if (alreadyImported) {
+			return false
+		}
+
+		const { verbatimModuleSyntax } = sourceFile
+			.getProject()
+			.getCompilerOptions()
+		existingImport.addNamedImport({
+			name,
+			isTypeOnly: !existingImport.isTypeOnly() && verbatimModuleSyntax === true
+		})
+		return true
+	}
+
+	// Write the import in the quote and semicolon style of the existing imports
+	const importDeclarations = sourceFile.getImportDeclarations()
+	const lastImport = importDeclarations.at(-1)
+	const quote =
+		(
+			lastImport?.getModuleSpecifier() ??
+			sourceFile.getFirstDescendantByKind(SyntaxKind.StringLiteral)
+		)?.getQuoteKind() ??
+		sourceFile.getProject().manipulationSettings.getQuoteKind()
+	const semicolon = lastImport && !lastImport.getText().endsWith(';') ? '' : ';'
+
+	const importText = `import type { ${name} } from ${quote}${moduleSpecifier}${quote}${semicolon}`
+
+	if (lastImport) {
+		sourceFile.insertStatements(lastImport.getChildIndex() + 1, importText)
+		return true
+	}
+
+	const [importDeclaration] = sourceFile.insertStatements(0, importText)
+	// Separate the first import from the code below it
+	if (importDeclaration?.getNextSibling()) {
+		sourceFile.insertText(importDeclaration.getEnd(), '\n')
+	}
+	return true
+}
+
+/**
+ * Gets the module specifier to import a file from another file. Files in
+ * node_modules are imported through a module that is confirmed to export
+ * them: a module the file already imports, the package itself, or one of the
+ * subpaths of its `exports`.
+ * @param sourceFile - The importing source file.
+ * @param targetFilePath - The absolute path of the imported file.
+ * @param exportName - The name imported from the file, which the module may re-export from it.
+ * @returns A relative specifier or a package specifier, or undefined if no module is confirmed to export the file.
+ */
+export function getModuleSpecifier(
+	sourceFile: SourceFile,
+	targetFilePath: string,
+	exportName?: string
+): string | undefined {
+	const posixTargetPath = targetFilePath.split(path.sep).join(path.posix.sep)
+	const packageInfo = getPackageInfo(posixTargetPath)
+	if (!packageInfo) {
+		return getRelativeModuleSpecifier(sourceFile, posixTargetPath)
+	}
+
+	const importedSpecifiers = [
+		...sourceFile.getImportDeclarations(),
+		...sourceFile.getExportDeclarations()
+	]
+		.map((declaration): string | undefined =>
+			declaration.getModuleSpecifierValue()
+		)
+		.filter(
+			(specifier): specifier is string =>
+				specifier !== undefined &&
+				!specifier.startsWith('.') &&
+				!path.isAbsolute(specifier)
+		)
+	const candidates = new Set([
+		...importedSpecifiers,
+		packageInfo.name,
+		...getExportSubpaths(sourceFile, packageInfo.directory).map(
+			(subpath): string => `${packageInfo.name}/${subpath}`
+		)
+	])
+
+	return [...candidates].find((specifier): boolean =>
+		exportsFrom(sourceFile, specifier, posixTargetPath, exportName)
+	)
+}
+
+/**
+ * Gets the relative module specifier to import a file from another file,
+ * following the extension convention of the existing relative imports, or the
+ * module resolution of the project when there are none.
+ * @param sourceFile - The importing source file.
+ * @param targetFilePath - The absolute path of the imported file.
+ * @returns The relative specifier.
+ */
+function getRelativeModuleSpecifier(
+	sourceFile: SourceFile,
+	targetFilePath: string
+): string {
+	let relativePath = path.posix.relative(
+		path.posix.dirname(
+			sourceFile.getFilePath().split(path.sep).join(path.posix.sep)
+		),
+		targetFilePath.split(path.sep).join(path.posix.sep)
+	)
+	if (!relativePath.startsWith('.')) {
+		relativePath = `./${relativePath}`
+	}
+
+	const extensionMatch = /(\.d)?\.([cm]?)tsx?$/.exec(relativePath)
+	if (!extensionMatch) {
+		return relativePath
+	}
+
+	const withoutExtension = relativePath.slice(0, extensionMatch.index)
+	const moduleKind = extensionMatch[2] ?? ''
+
+	const extensionStyle = getExtensionStyle(sourceFile)
+	if (extensionStyle === 'none') {
+		return withoutExtension.replace(/\/index$/, '')
+	}
+
+	// Declaration files are imported by the name of the JavaScript file they describe
+	if (extensionStyle === 'js' || extensionMatch[1]) {
+		return `${withoutExtension}.${moduleKind}js`
+	}
+
+	return relativePath
+}
+
+/**
+ * Checks whether a module specifier resolves to a file, or to a module that
+ * re-exports a name declared in the file, from the importing file.
+ * @param sourceFile - The importing source file.
+ * @param specifier - The module specifier.
+ * @param targetFilePath - The absolute posix path of the file.
+ * @param exportName - The name imported from the file.
+ */
+function exportsFrom(
+	sourceFile: SourceFile,
+	specifier: string,
+	targetFilePath: string,
+	exportName: string | undefined
+): boolean {
+	const resolvedFilePath = resolveModulePath(sourceFile, specifier)
+	if (resolvedFilePath === undefined || resolvedFilePath === targetFilePath) {
+		return resolvedFilePath !== undefined
+	}
+	if (exportName === undefined) {
+		return false
+	}
+
+	const exportSymbol = sourceFile
+		.getProject()
+		.getSourceFile(resolvedFilePath)
+		?.getExportSymbols()
+		.find((symbol): boolean => symbol.getName() === exportName)
+	const symbol = exportSymbol?.isAlias()
+		? exportSymbol.getAliasedSymbol()
+		: exportSymbol
+	return (
+		symbol
+			?.getDeclarations()
+			.some(
+				(declaration): boolean =>
+					declaration.getSourceFile().getFilePath() === targetFilePath
+			) ?? false
+	)
+}
+
+/**
+ * Gets the name and directory of the npm package a file in node_modules
+ * belongs to, mapping DefinitelyTyped packages to the package they describe.
+ * @param filePath - The absolute posix path of the file.
+ * @returns The package, or undefined if the file is not in node_modules.
+ */
+function getPackageInfo(
+	filePath: string
+): { name: string; directory: string } | undefined {
+	const match = /.*\/node_modules\/((?:@[^/]+\/)?[^/]+)/.exec(filePath)
+	const packageName = match?.[1]
+	if (!match || !packageName) {
+		return undefined
+	}
+
+	const directory = match[0]
+	if (!packageName.startsWith('@types/')) {
+		return { name: packageName, directory }
+	}
+
+	const typedPackageName = packageName.slice('@types/'.length)
+	return {
+		name: typedPackageName.includes('__')
+			? `@${typedPackageName.replace('__', '/')}`
+			: typedPackageName,
+		directory
+	}
+}
+
+/**
+ * Gets the subpaths a package exports without wildcards, such as `sub` for
+ * the `./sub` entry of its `exports`.
+ * @param sourceFile - The importing source file, whose project reads the package.json.
+ * @param packageDirectory - The absolute posix path of the package.
+ * @returns The subpaths, without the leading `./`.
+ */
+function getExportSubpaths(
+	sourceFile: SourceFile,
+	packageDirectory: string
+): string[] {
+	let packageJson: unknown
+	try {
+		packageJson = JSON.parse(
+			sourceFile
+				.getProject()
+				.getFileSystem()
+				.readFileSync(path.posix.join(packageDirectory, 'package.json'))
+		)
+	} catch {
+		return []
+	}
+
+	const exports =
+		typeof packageJson === 'object' &&
+		packageJson !== null &&
+		'exports' in packageJson
+			? packageJson.exports
+			: undefined
+	if (typeof exports !== 'object' || exports === null) {
+		return []
+	}
+
+	return Object.keys(exports)
+		.filter(
+			(key): boolean =>
+				key.startsWith('./') && !key.includes('*') && key !== './package.json'
+		)
+		.map((key): string => key.slice('./'.length))
+}
+
+/**
+ * Detects whether relative imports in a source file use `.js`, `.ts` or no
+ * extensions.
+ * @param sourceFile - The source file.
+ * @returns The extension style for new relative imports.
+ */
+function getExtensionStyle(sourceFile: SourceFile): ExtensionStyle {
+	const relativeSpecifier = [
+		...sourceFile.getImportDeclarations(),
+		...sourceFile.getExportDeclarations()
+	]
+		.map((declaration): string | undefined =>
+			declaration.getModuleSpecifierValue()
+		)
+		.find((specifier): boolean => specifier?.startsWith('.') ?? false)
+
+	if (relativeSpecifier) {
+		if (/\.[cm]?tsx?$/.test(relativeSpecifier)) {
+			return 'ts'
+		}
+		return /\.[cm]?js$/.test(relativeSpecifier) ? 'js' : 'none'
+	}
+
+	const { module, moduleResolution } = sourceFile
+		.getProject()
+		.getCompilerOptions()
+	const requiresExtensions =
+		moduleResolution === ts.ModuleResolutionKind.Node16 ||
+		moduleResolution === ts.ModuleResolutionKind.NodeNext ||
+		(moduleResolution === undefined &&
+			(module === ts.ModuleKind.Node16 || module === ts.ModuleKind.NodeNext))
+
+	return requiresExtensions ? 'js' : 'none'
+}
+
+/**
+ * Collects the declarations of the named types a type is printed with.
+ * @param type - The type.
+ * @param node - The node the type is printed at.
+ * @param declarations - The set to add the declarations to.
+ * @param seen - The types already visited.
+ */
+function collectTypeDeclarations(
+	type: Type,
+	node: Node,
+	declarations: Set<Node>,
+	seen: Set<ts.Type>
+): void {
+	if (seen.has(type.compilerType)) {
+		return
+	}
+	seen.add(type.compilerType)
+
+	const aliasSymbol = type.getAliasSymbol()
+	if (aliasSymbol) {
+		for (const declaration of aliasSymbol.getDeclarations()) {
+			declarations.add(declaration)
+		}
+		for (const typeArgument of type.getAliasTypeArguments()) {
+			collectTypeDeclarations(typeArgument, node, declarations, seen)
+		}
+		return
+	}
+
+	const memberTypes = type.isUnion()
+		? type.getUnionTypes()
+		: type.isIntersection()
+			? type.getIntersectionTypes()
+			: undefined
+	if (memberTypes) {
+		for (const memberType of memberTypes) {
+			collectTypeDeclarations(memberType, node, declarations, seen)
+		}
+		return
+	}
+
+	for (const typeArgument of type.getTypeArguments()) {
+		collectTypeDeclarations(typeArgument, node, declarations, seen)
+	}
+
+	const symbol = type.getSymbol()
+	if (!symbol) {
+		return
+	}
+
+	if (!type.isAnonymous() || type.isEnumLiteral()) {
+		for (const declaration of symbol.getDeclarations()) {
+			declarations.add(declaration)
+		}
+		return
+	}
+
+	// Anonymous object and function types are printed inline, so look inside them
+	for (const property of type.getProperties()) {
+		collectTypeDeclarations(
+			property.getTypeAtLocation(node),
+			node,
+			declarations,
+			seen
+		)
+	}
+	for (const signature of type.getCallSignatures()) {
+		for (const parameter of signature.getParameters()) {
+			collectTypeDeclarations(
+				parameter.getTypeAtLocation(node),
+				node,
+				declarations,
+				seen
+			)
+		}
+		collectTypeDeclarations(signature.getReturnType(), node, declarations, seen)
+	}
+}
+
+/**
+ * Finds the exported top-level declaration to import for a declaration, such
+ * as the enum of an enum member or the namespace of a nested interface.
+ * @param declaration - The declaration of a referenced type.
+ * @returns The import target, or undefined if the declaration cannot be imported.
+ */
+function getImportTarget(declaration: Node): ImportTarget | undefined {
+	const sourceFile = declaration.getSourceFile()
+
+	let topLevelDeclaration: Node | undefined = declaration
+	let ambientModuleName: string | undefined
+	while (topLevelDeclaration) {
+		const parent = topLevelDeclaration.getParent()
+		if (Node.isSourceFile(parent)) {
+			break
+		}
+
+		const moduleDeclaration = parent?.getParent()
+		if (
+			Node.isModuleBlock(parent) &&
+			Node.isModuleDeclaration(moduleDeclaration) &&
+			moduleDeclaration.hasModuleKeyword() &&
+			Node.isStringLiteral(moduleDeclaration.getNameNode())
+		) {
+			ambientModuleName = moduleDeclaration.getName().slice(1, -1)
+			break
+		}
+
+		topLevelDeclaration = parent
+	}
+
+	if (!topLevelDeclaration) {
+		return undefined
+	}
+
+	if (!ambientModuleName) {
+		// Declarations in scripts, such as the lib files, are global
+		if (!isModule(sourceFile)) {
+			return undefined
+		}
+
+		if (
+			!Node.isExportable(topLevelDeclaration) ||
+			!topLevelDeclaration.isNamedExport()
+		) {
+			return undefined
+		}
+	}
+
+	const name = Node.hasName(topLevelDeclaration)
+		? topLevelDeclaration.getName()
+		: undefined
+	if (!name) {
+		return undefined
+	}
+
+	return { name, sourceFile, ambientModuleName }
+}
+
+/**
+ * Checks whether a source file is an ES module rather than a global script.
+ * @param sourceFile - The source file.
+ */
+function isModule(sourceFile: SourceFile): boolean {
+	return ts.isExternalModule(sourceFile.compilerNode)
+}
+
+/**
+ * Checks whether a name is already declared at a node or about to be imported.
+ * A name that refers to something else also counts, since importing another
+ * declaration with the same name would conflict with it.
+ * @param node - The node the type is written at.
+ * @param name - The name to check.
+ * @param pendingImports - The imports about to be added.
+ */
+function isInScope(
+	node: Node,
+	name: string,
+	pendingImports: PendingImports
+): boolean {
+	return pendingImports.has(name) || resolveSymbol(node, name) !== undefined
+}
+
+/**
+ * Resolves what a name refers to at a node, following imports to the
+ * declarations they import.
+ * @param node - The node the name is used at.
+ * @param name - The name to resolve.
+ * @returns The symbol the name refers to, or undefined if it is not declared.
+ */
+export function resolveSymbol(node: Node, name: string): ts.Symbol | undefined {
+	const typeChecker = node.getProject().getTypeChecker().compilerObject
+	const symbol = typeChecker.resolveName(
+		name,
+		node.compilerNode,
+		ts.SymbolFlags.Type | ts.SymbolFlags.Value | ts.SymbolFlags.Namespace,
+		false
+	)
+
+	return symbol && symbol.flags & ts.SymbolFlags.Alias
+		? typeChecker.getAliasedSymbol(symbol)
+		: symbol
+}
+
+/**
+ * Resolves a module specifier the way the project would.
+ * @param sourceFile - The importing source file.
+ * @param specifier - The module specifier.
+ * @returns The path of the resolved file, or undefined if it cannot be resolved.
+ */
+function resolveModulePath(
+	sourceFile: SourceFile,
+	specifier: string
+): string | undefined {
+	const project = sourceFile.getProject()
+	const { resolvedModule } = ts.resolveModuleName(
+		specifier,
+		sourceFile.getFilePath(),
+		project.getCompilerOptions(),
+		project.getModuleResolutionHost()
+	)
+
+	return resolvedModule?.resolvedFileName
+}
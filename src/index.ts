@@ -1,2 +1,29 @@
-export { addFunctionReturnTypes } from './add-function-return-types.js'
-export { type Options, defaultOptions } from './options.js'
+export {
+	type Annotation,
+	type FileResult,
+	type FileStatus,
+	type RunResult,
+	type SkippedFunction,
+	addFunctionReturnTypes,
+	checkFailedExitCode
+} from './add-function-return-types.js'
+export { type Config, defineConfig } from './config.js'
+export { type UndoResult, undoRun } from './journal.js'
+export {
+	type Logger,
+	type LogLevel,
+	consoleLogger,
+	createConsoleLogger
+} from './logger.js'
+export {
+	type ConfigOverride,
+	type FileOptions,
+	type Options,
+	defaultOptions
+} from './options.js'
+export {
+	type TransformSourceOptions,
+	type TransformSourceResult,
+	transformSource,
+	transformSourceInProject
+} from './transform-source.js'
@@ -0,0 +1,322 @@
+import crypto from 'node:crypto'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import type { Annotation } from './add-function-return-types.js'
+import { defaultCacheLocation, hashText } from './cache.js'
+import { consoleLogger, type Logger } from './logger.js'
+
+/**
+ * A file saved by a run, with what it contained before and after.
+ */
+export type JournalFile = {
+	filePath: string
+	originalHash: string
+	updatedHash: string
+	/** The text the file is restored to when the run is undone. */
+	originalText: string
+	/** The return types the run added to the file. */
+	edits: Annotation[]
+}
+
+/**
+ * The files a run saved, so that the run can be undone.
+ */
+export type Journal = {
+	runId: string
+	createdAt: string
+	files: JournalFile[]
+}
+
+/**
+ * The journal of a run that is written as the run saves files.
+ */
+export type RunJournal = {
+	/** Appends a saved file to the journal, which is created with the first file. */
+	addFile: (file: JournalFile) => void
+	/**
+	 * Waits for the saved files to be written to the journal.
+	 * @returns The id of the run, or undefined if it saved no files.
+	 */
+	close: () => Promise<string | undefined>
+}
+
+/**
+ * The outcome of undoing a run.
+ */
+export type UndoResult = {
+	/** The id of the undone run, or undefined if there was no run to undo. */
+	runId: string | undefined
+	restoredFiles: string[]
+	/** The files that already had their original content. */
+	skippedFiles: string[]
+	/** The files that were modified after the run and were left as they are. */
+	modifiedFiles: string[]
+	/** The exit code for the CLI: 1 if the run was not found or not all its files were restored, and 0 otherwise. */
+	exitCode: number
+}
+
+const journalDirectoryName = 'runs'
+
+/**
+ * How many journals are kept. The journals of older runs are removed when a
+ * new run saves files, so that they do not pile up in the cache directory.
+ */
+export const keptJournalCount = 20
+
+/**
+ * Creates the id of a run, which sorts in the order the runs were started.
+ * @param date - When the run was started.
+ * @returns The run id, such as "2026-10-19T17-30-00-123Z-1a2b3c4d".
+ */
+export function createRunId(date: Date = new Date()): string {
+	const timestamp = date.toISOString().replace(/[:.]/g, '-')
+	return `${timestamp}-${crypto.randomUUID().slice(0, 8)}`
+}
+
+/**
+ * Creates the journal entry of a saved file.
+ * @param filePath - The path of the file.
+ * @param originalText - The text of the file before the run.
+ * @param updatedText - The text the run saved.
+ * @param edits - The return types the run added.
+ * @returns The journal entry.
+ */
+export function createJournalFile(
+	filePath: string,
+	originalText: string,
+	updatedText: string,
+	edits: Annotation[]
+): JournalFile {
+	return {
+		filePath,
+		originalHash: hashText(originalText),
+		updatedHash: hashText(updatedText),
+		originalText,
+		edits
+	}
+}
+
+/**
+ * Writes the journal of a run to the cache directory, as a line with the run
+ * followed by a line for each file, so that files can be appended to it.
+ * @param cacheLocation - The cache directory.
+ * @param journal - The journal to write.
+ * @returns The path of the journal file.
+ */
+export async function writeJournal(
+	cacheLocation: string,
+	journal: Journal
+): Promise<string> {
+	const { files, ...run } = journal
+	const journalDirectory = path.join(cacheLocation, journalDirectoryName)
+	const journalPath = path.join(journalDirectory, `${journal.runId}.jsonl`)
+	await fs.mkdir(journalDirectory, { recursive: true })
+	await fs.writeFile(
+		journalPath,
+		[run, ...files]
+			.map((entry): string => `${JSON.stringify(entry)}\n`)
+			.join('')
+	)
+	return journalPath
+}
+
+/**
+ * Creates the journal of a run, which is written when the run saves its first
+ * file and appended to as it saves each file after that, so that the files
+ * saved before the run is interrupted can be restored too. The journals of
+ * older runs are pruned once the journal is written.
+ * @param cacheLocation - The cache directory.
+ * @param logger - The logger for the undo hint.
+ * @returns The journal of the run.
+ */
+export function createRunJournal(
+	cacheLocation: string,
+	logger: Logger
+): RunJournal {
+	let runId: string | undefined
+	let writing = Promise.resolve()
+
+	return {
+		addFile: (file): void => {
+			writing = writing.then(async (): Promise<void> => {
+				if (runId === undefined) {
+					const createdAt = new Date()
+					runId = createRunId(createdAt)
+					await writeJournal(cacheLocation, {
+						runId,
+						createdAt: createdAt.toISOString(),
+						files: []
+					})
+					await pruneJournals(cacheLocation, keptJournalCount)
+				}
+
+				await fs.appendFile(
+					path.join(cacheLocation, journalDirectoryName, `${runId}.jsonl`),
+					`${JSON.stringify(file)}\n`
+				)
+			})
+		},
+		close: async (): Promise<string | undefined> => {
+			await writing
+			if (runId !== undefined) {
+				logger.info(
+					`Undo run ${runId} with "add-function-return-types undo ${runId}"`
+				)
+			}
+			return runId
+		}
+	}
+}
+
+/**
+ * Removes the journals of all but the latest runs. Journals of the earlier
+ * format, a single JSON document per run, are removed too, since they cannot be
+ * undone.
+ * @param cacheLocation - The cache directory.
+ * @param keptCount - How many of the latest journals to keep.
+ * @returns The ids of the removed runs.
+ */
+export async function pruneJournals(
+	cacheLocation: string,
+	keptCount: number
+): Promise<string[]> {
+	const journalDirectory = path.join(cacheLocation, journalDirectoryName)
+	const legacyFileNames = (
+		await fs.readdir(journalDirectory).catch((): string[] => [])
+	).filter((fileName): boolean => fileName.endsWith('.json'))
+	const prunedFileNames = [
+		...legacyFileNames,
+		...(await getJournalFileNames(journalDirectory)).slice(0, -keptCount)
+	]
+	for (const fileName of prunedFileNames) {
+		await fs.rm(path.join(journalDirectory, fileName), { force: true })
+	}
+	return prunedFileNames.map((fileName): string => path.parse(fileName).name)
+}
+
+/**
+ * Lists the journal files of a directory, from the oldest to the latest run.
+ * @param journalDirectory - The directory of the journals.
+ * @returns The file names of the journals.
+ */
+async function getJournalFileNames(
+	journalDirectory: string
+): Promise<string[]> {
+	const fileNames = await fs.readdir(journalDirectory).catch((): string[] => [])
+	return fileNames
+		.filter((fileName): boolean => fileName.endsWith('.jsonl'))
+		.toSorted()
+}
+
+/**
+ * Reads the journal of a run from the cache directory.
+ * @param cacheLocation - The cache directory.
+ * @param runId - The id of the run, or undefined for the latest run.
+ * @returns The journal, or undefined if there is none.
+ */
+export async function readJournal(
+	cacheLocation: string,
+	runId?: string
+): Promise<Journal | undefined> {
+	const journalDirectory = path.join(cacheLocation, journalDirectoryName)
+	const fileNames = await getJournalFileNames(journalDirectory)
+	const journalFileName =
+		runId === undefined
+			? fileNames.at(-1)
+			: fileNames.find((fileName): boolean => fileName === `${runId}.jsonl`)
+	if (journalFileName === undefined) {
+		return undefined
+	}
+
+	const text = await fs.readFile(
+		path.join(journalDirectory, journalFileName),
+		'utf-8'
+	)
+	const [runLine = '{}', ...fileLines] = text.split('\n').filter(Boolean)
+	return {
+		...JSON.parse(runLine),
+		files: fileLines.map((line): JournalFile => JSON.parse(line))
+	}
+}
+
+/**
+ * Undoes a run by restoring the files it saved. Files that were modified after
+ * the run are left as they are, with a warning. The journal is removed once
+ * all its files are restored, so that the next undo goes to the run before.
+ * The process is never exited, so that the result can be handled by the caller.
+ * @param runId - The id of the run, or undefined for the latest run.
+ * @param cacheLocation - The cache directory the journals are stored in.
+ * @param logger - The logger for progress messages.
+ * @returns A promise that resolves to the restored, skipped and modified files.
+ */
+export async function undoRun(
+	runId?: string,
+	cacheLocation: string = defaultCacheLocation,
+	logger: Logger = consoleLogger
+): Promise<UndoResult> {
+	const resolvedCacheLocation = path.resolve(cacheLocation)
+	const journal = await readJournal(resolvedCacheLocation, runId)
+	if (!journal) {
+		logger.error(
+			runId === undefined
+				? `No runs to undo found in "${resolvedCacheLocation}"`
+				: `Run ${runId} not found in "${resolvedCacheLocation}"`
+		)
+		return {
+			runId: undefined,
+			restoredFiles: [],
+			skippedFiles: [],
+			modifiedFiles: [],
+			exitCode: 1
+		}
+	}
+
+	logger.info(`Undoing run ${journal.runId}`)
+	const restoredFiles: string[] = []
+	const skippedFiles: string[] = []
+	const modifiedFiles: string[] = []
+	for (const file of journal.files) {
+		const text = await fs
+			.readFile(file.filePath, 'utf-8')
+			.catch((): undefined => undefined)
+		const hash = text === undefined ? undefined : hashText(text)
+
+		if (hash === file.originalHash) {
+			logger.info(`"${file.filePath}" is already restored`)
+			skippedFiles.push(file.filePath)
+		} else if (hash === file.updatedHash) {
+			await fs.writeFile(file.filePath, file.originalText)
+			logger.info(
+				`Restored "${file.filePath}", removing ${file.edits.length} return type(s)`
+			)
+			restoredFiles.push(file.filePath)
+		} else {
+			modifiedFiles.push(file.filePath)
+		}
+	}
+
+	const result = {
+		runId: journal.runId,
+		restoredFiles,
+		skippedFiles,
+		modifiedFiles
+	}
+	if (modifiedFiles.length > 0) {
+		logger.warn(
+			`\nNot restored ${modifiedFiles.length} file(s) that were modified after run ${journal.runId}:`
+		)
+		for (const filePath of modifiedFiles) {
+			logger.warn(`  - ${filePath}`)
+		}
+		return { ...result, exitCode: 1 }
+	}
+
+	await fs.rm(
+		path.join(
+			resolvedCacheLocation,
+			journalDirectoryName,
+			`${journal.runId}.jsonl`
+		)
+	)
+	return { ...result, exitCode: 0 }
+}
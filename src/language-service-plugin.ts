@@ -0,0 +1,268 @@
+import { Project, type ts } from 'ts-morph'
+import {
+	type FunctionHead,
+	getFunctionHeadsToAnnotate
+} from './add-function-return-types.js'
+import { getFileOptions, resolveOptions, resolveOverrides } from './config.js'
+import { getTextChanges } from './diff.js'
+import type { Logger } from './logger.js'
+import { transformSourceInProject } from './transform-source.js'
+
+const refactorName = 'add-function-return-types'
+
+const functionAction: ts.RefactorActionInfo = {
+	name: 'add-explicit-return-type',
+	description: 'Add explicit return type',
+	kind: 'refactor.rewrite.function.returnType'
+}
+
+const fileAction: ts.RefactorActionInfo = {
+	name: 'add-all-missing-return-types',
+	description: 'Add all missing return types in file',
+	kind: 'refactor.rewrite.file.returnTypes'
+}
+
+/**
+ * Decorates the language service of a tsserver project with refactors that add
+ * return types to the function at the cursor or to every function of the file.
+ * The options are read from the configuration file of the project, like the
+ * CLI does, once when the plugin is created.
+ * @param info - The project and language service the plugin is created for.
+ * @returns A promise that resolves to the decorated language service.
+ */
+export async function createLanguageService(
+	info: ts.server.PluginCreateInfo
+): Promise<ts.LanguageService> {
+	const { languageService } = info
+	const logger = createServerLogger(info)
+	const options = await resolveOptions({
+		path: info.project.getCurrentDirectory(),
+		logger
+	})
+	const overrides = await resolveOverrides(options.overrides)
+
+	// Types are resolved in a Project of its own, which is created on first use and kept up to date with the language service
+	let project: Project | undefined
+	const getProject = (): Project => {
+		project ??= new Project({
+			compilerOptions: {
+				...info.project.getCompilerOptions(),
+				// ensureStableDeclarations: declarations are emitted in memory only
+				...(options.ensureStableDeclarations ||
+				overrides.some(
+					(override): boolean =>
+						override.options.ensureStableDeclarations === true
+				)
+					? { declaration: true, noEmit: false }
+					: {})
+			},
+			skipAddingFilesFromTsConfig: true
+		})
+		return project
+	}
+
+	// The functions are decided on in the Project like a run does, since some options depend on their types
+	// The heads are kept until the program changes, so that moving the cursor does not annotate the file again
+	const functionHeadsByProgram = new WeakMap<
+		ts.Program,
+		Map<string, FunctionHead[]>
+	>()
+	const getFunctionHeads = (
+		program: ts.Program,
+		fileName: string,
+		code: string
+	): FunctionHead[] => {
+		let functionHeadsByFile = functionHeadsByProgram.get(program)
+		if (!functionHeadsByFile) {
+			functionHeadsByFile = new Map()
+			functionHeadsByProgram.set(program, functionHeadsByFile)
+		}
+		const cachedHeads = functionHeadsByFile.get(fileName)
+		if (cachedHeads) {
+			return cachedHeads
+		}
+
+		const updatedProject = getProject()
+		updateProject(updatedProject, program)
+
+		const existingText = updatedProject.getSourceFile(fileName)?.getFullText()
+		const sourceFile = updatedProject.createSourceFile(fileName, code, {
+			overwrite: true
+		})
+		try {
+			const functionHeads = getFunctionHeadsToAnnotate(
+				sourceFile,
+				getFileOptions(options, overrides, fileName)
+			)
+			functionHeadsByFile.set(fileName, functionHeads)
+			return functionHeads
+		} finally {
+			if (existingText === undefined) {
+				updatedProject.removeSourceFile(sourceFile)
+			} else {
+				sourceFile.replaceWithText(existingText)
+			}
+		}
+	}
+
+	return {
+		...languageService,
+		getApplicableRefactors: (
+			fileName,
+			positionOrRange,
+			preferences,
+			triggerReason,
+			kind,
+			includeInteractiveActions
+		): ts.ApplicableRefactorInfo[] => {
+			const refactors = languageService.getApplicableRefactors(
+				fileName,
+				positionOrRange,
+				preferences,
+				triggerReason,
+				kind,
+				includeInteractiveActions
+			)
+			const program = languageService.getProgram()
+			const sourceFile = program?.getSourceFile(fileName)
+			if (!program || !sourceFile || sourceFile.isDeclarationFile) {
+				return refactors
+			}
+
+			// The file is walked once for both actions, which are only offered if they add return types
+			const functionHeads = getFunctionHeads(program, fileName, sourceFile.text)
+			const actions = [
+				...(getFunctionAt(functionHeads, getPosition(positionOrRange))
+					? [functionAction]
+					: []),
+				...(functionHeads.length > 0 ? [fileAction] : [])
+			].filter((action): boolean => !kind || !!action.kind?.startsWith(kind))
+
+			return actions.length > 0
+				? [
+						...refactors,
+						{
+							name: refactorName,
+							description: 'Add explicit return types',
+							actions
+						}
+					]
+				: refactors
+		},
+		getEditsForRefactor: (
+			fileName,
+			formatOptions,
+			positionOrRange,
+			refactor,
+			actionName,
+			preferences,
+			interactiveRefactorArguments
+		): ts.RefactorEditInfo | undefined => {
+			if (refactor !== refactorName) {
+				return languageService.getEditsForRefactor(
+					fileName,
+					formatOptions,
+					positionOrRange,
+					refactor,
+					actionName,
+					preferences,
+					interactiveRefactorArguments
+				)
+			}
+
+			const program = languageService.getProgram()
+			const sourceFile = program?.getSourceFile(fileName)
+			if (!program || !sourceFile) {
+				return undefined
+			}
+
+			const functionStart =
+				actionName === functionAction.name
+					? getFunctionAt(
+							getFunctionHeads(program, fileName, sourceFile.text),
+							getPosition(positionOrRange)
+						)?.start
+					: undefined
+			if (actionName === functionAction.name && functionStart === undefined) {
+				return undefined
+			}
+
+			const updatedProject = getProject()
+			updateProject(updatedProject, program)
+			const { text } = transformSourceInProject(
+				updatedProject,
+				sourceFile.text,
+				{
+					...getFileOptions(options, overrides, fileName),
+					fileName,
+					functionStart,
+					logger
+				}
+			)
+
+			return {
+				edits: [
+					{ fileName, textChanges: getTextChanges(sourceFile.text, text) }
+				]
+			}
+		}
+	}
+}
+
+/**
+ * Creates a logger that writes to the log of tsserver.
+ * @param info - The project and language service the plugin is created for.
+ * @returns The logger.
+ */
+function createServerLogger(info: ts.server.PluginCreateInfo): Logger {
+	const log = (message: string): void => {
+		info.project.projectService.logger.info(
+			`[add-function-return-types] ${message}`
+		)
+	}
+	return { debug: log, info: log, warn: log, error: log }
+}
+
+/**
+ * Brings the files of a Project up to date with the program of the language
+ * service, which has the unsaved changes of the open files.
+ * @param project - The ts-morph Project instance.
+ * @param program - The program of the language service.
+ */
+function updateProject(project: Project, program: ts.Program): void {
+	for (const { fileName, text } of project
+		.getProgram()
+		.compilerObject.getSourceFiles()) {
+		const updatedText = program.getSourceFile(fileName)?.text
+		if (updatedText !== undefined && updatedText !== text) {
+			project.getSourceFile(fileName)?.replaceWithText(updatedText)
+		}
+	}
+}
+
+/**
+ * Gets the position of the cursor, or the start of the selection.
+ * @param positionOrRange - The position or selection of the editor.
+ * @returns The position.
+ */
+function getPosition(positionOrRange: number | ts.TextRange): number {
+	return typeof positionOrRange === 'number'
+		? positionOrRange
+		: positionOrRange.pos
+}
+
+/**
+ * Gets the innermost function whose head, from its start to its body,
+ * contains the position.
+ * @param functionHeads - The heads of the functions, in the order they start in.
+ * @param position - The position of the cursor.
+ * @returns The head of the function, or undefined if there is none at the position.
+ */
+function getFunctionAt(
+	functionHeads: FunctionHead[],
+	position: number
+): FunctionHead | undefined {
+	return functionHeads.findLast(
+		(head): boolean => head.start <= position && position <= head.end
+	)
+}
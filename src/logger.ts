@@ -0,0 +1,71 @@
+/**
+ * Receives the messages of a run. Any object with these methods can be used,
+ * such as `console` or the logger of a build tool.
+ */
+export type Logger = {
+	debug: (message: string) => void
+	info: (message: string) => void
+	warn: (message: string) => void
+	error: (message: string) => void
+}
+
+/**
+ * The least severe level of the messages that are logged. `silent` logs
+ * nothing.
+ */
+export type LogLevel = keyof Logger | 'silent'
+
+const logLevels: LogLevel[] = ['debug', 'info', 'warn', 'error', 'silent']
+
+/**
+ * Creates a logger that writes the messages of the given level and above to
+ * the console.
+ * @param level - The least severe level to log.
+ * @param output - Where debug and info messages are written. Warnings and errors are always written to stderr.
+ * @returns The logger.
+ */
+export function createConsoleLogger(
+	level: LogLevel = 'info',
+	output: 'stdout' | 'stderr' = 'stdout'
+): Logger {
+	const isLogged = (messageLevel: keyof Logger): boolean =>
+		logLevels.indexOf(messageLevel) >= logLevels.indexOf(level)
+
+	// The console methods are looked up on every call, so that they can be replaced, such as by test spies
+	const write = (method: 'debug' | 'info', message: string): void => {
+		if (output === 'stderr') {
+			console.error(message)
+		} else {
+			console[method](message)
+		}
+	}
+
+	return {
+		debug: (message): void => {
+			if (isLogged('debug')) {
+				write('debug', message)
+			}
+		},
+		info: (message): void => {
+			if (isLogged('info')) {
+				write('info', message)
+			}
+		},
+		warn: (message): void => {
+			if (isLogged('warn')) {
+				console.warn(message)
+			}
+		},
+		error: (message): void => {
+			if (isLogged('error')) {
+				console.error(message)
+			}
+		}
+	}
+}
+
+/**
+ * The default logger, which writes everything but debug messages to the
+ * console.
+ */
+export const consoleLogger = createConsoleLogger()
@@ -1,7 +1,32 @@
+import { consoleLogger, type Logger } from './logger.js'
+
+/**
+ * The kind of declaration that anonymous object return types are extracted to.
+ */
+export type ExtractedTypeKind = 'type' | 'interface'
+
+/**
+ * What to do with a function whose inferred return type is over the complexity
+ * budget: leave it without a return type, add the return type and report it,
+ * or declare the return type as a type alias named after the function.
+ */
+export type ComplexTypePolicy = 'skip' | 'report' | 'extract'
+
 export type Options = {
-	path: string
+	/** The directories and files to process. */
+	path: string | string[]
+	/** A file listing more paths to process, or `-` for stdin. */
+	filesFrom: string | undefined
+	/** Annotate code read from stdin and write it to stdout instead of processing files. The code is not cached, and `concurrency` and `dryRun` have no effect. */
+	stdin: boolean
+	/** The path the code read from stdin is annotated as, which decides the project its types are resolved in. */
+	stdinFilepath: string | undefined
 	shallow: boolean
 	ignoreFiles: string[]
+	since: string | undefined
+	staged: boolean
+	changed: boolean
+	changedLinesOnly: boolean
 	ignoreConciseArrowFunctionExpressionsStartingWithVoid: boolean
 	ignoreExpressions: boolean
 	ignoreFunctionsWithoutTypeParameters: boolean
@@ -14,14 +39,98 @@ export type Options = {
 	ignoreAny: boolean
 	ignoreUnknown: boolean
 	ignoreAnonymousFunctions: boolean
+	ignoreAccessors: boolean
+	exportedOnly: boolean
+	extractObjectTypes: boolean
+	extractedTypeKind: ExtractedTypeKind
+	maxTypeLength: number | undefined
+	maxUnionMembers: number | undefined
+	maxTypeDepth: number | undefined
+	complexTypePolicy: ComplexTypePolicy
 	dryRun: boolean
+	allowDirty: boolean
+	check: boolean
+	verify: boolean
+	ensureStableDeclarations: boolean
+	concurrency: number
+	cache: boolean
+	cacheLocation: string | undefined
+	watch: boolean
+	/** Stops watching when aborted, so that a run in watch mode resolves. */
+	signal: AbortSignal | undefined
+	/** Print a unified diff of the changes for each file instead of saving it. */
+	diff: boolean
+	outputPatch: string | undefined
 	tsconfig: string | undefined
+	config: string | undefined
+	/** Receives the progress and result messages of the run. */
+	logger: Logger
+	overrides: ConfigOverride[]
+}
+
+/**
+ * Options that apply to the whole run rather than to how a single file is
+ * annotated.
+ */
+export const runOptionKeys = [
+	'path',
+	'filesFrom',
+	'stdin',
+	'stdinFilepath',
+	'shallow',
+	'ignoreFiles',
+	'since',
+	'staged',
+	'changed',
+	'dryRun',
+	'allowDirty',
+	'check',
+	'concurrency',
+	'cache',
+	'cacheLocation',
+	'watch',
+	'signal',
+	'diff',
+	'outputPatch',
+	'tsconfig',
+	'config',
+	'logger',
+	'overrides'
+] as const satisfies (keyof Options)[]
+
+/**
+ * Options that decide how the functions of a single file are annotated, and
+ * therefore can be changed per file through `overrides`.
+ */
+export type FileOptions = Omit<Options, (typeof runOptionKeys)[number]>
+
+/**
+ * A set of options applied only to the files matching `files`, in the style of
+ * ESLint's `overrides`. Later overrides take precedence over earlier ones.
+ */
+export type ConfigOverride = Partial<FileOptions> & {
+	/** Glob patterns of the files this override applies to. */
+	files: string[]
+	/** Glob patterns of files to exclude, even if they match `files`. */
+	excludedFiles?: string[]
+	/**
+	 * Directory the patterns are relative to. Defaults to the current working
+	 * directory, or the directory of the config file the override comes from.
+	 */
+	basePath?: string
 }
 
 export const defaultOptions: Options = {
 	path: '.',
+	filesFrom: undefined,
+	stdin: false,
+	stdinFilepath: undefined,
 	shallow: false,
 	ignoreFiles: [],
+	since: undefined,
+	staged: false,
+	changed: false,
+	changedLinesOnly: false,
 	ignoreConciseArrowFunctionExpressionsStartingWithVoid: false,
 	ignoreExpressions: false,
 	ignoreFunctionsWithoutTypeParameters: false,
@@ -32,8 +141,30 @@ export const defaultOptions: Options = {
 	overwrite: false,
 	ignoreAnonymousObjects: false,
 	ignoreAnonymousFunctions: false,
+	ignoreAccessors: false,
+	exportedOnly: false,
 	ignoreAny: false,
 	ignoreUnknown: false,
+	extractObjectTypes: false,
+	extractedTypeKind: 'type',
+	maxTypeLength: undefined,
+	maxUnionMembers: undefined,
+	maxTypeDepth: undefined,
+	complexTypePolicy: 'skip',
 	dryRun: false,
-	tsconfig: undefined
+	allowDirty: false,
+	check: false,
+	verify: false,
+	ensureStableDeclarations: false,
+	concurrency: 1,
+	cache: false,
+	cacheLocation: undefined,
+	watch: false,
+	signal: undefined,
+	diff: false,
+	outputPatch: undefined,
+	tsconfig: undefined,
+	config: undefined,
+	logger: consoleLogger,
+	overrides: []
 }
@@ -0,0 +1,101 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { defaultOptions } from './options.js'
+
+/**
+ * Gets the paths to process: the given paths and the paths listed in the
+ * `filesFrom` file. Without either, the default path is processed. Relative
+ * paths are resolved from the working directory.
+ * @param paths - The paths given on the command line or by the caller.
+ * @param filesFrom - The file that lists paths to process, or `-` for stdin.
+ * @returns The absolute paths to process.
+ */
+export async function resolveInputPaths(
+	paths: string | string[] | undefined,
+	filesFrom: string | undefined
+): Promise<string[]> {
+	const inputPaths = [paths ?? []].flat()
+	if (filesFrom !== undefined) {
+		inputPaths.push(...(await readPathList(filesFrom)))
+	} else if (inputPaths.length === 0) {
+		inputPaths.push(...[defaultOptions.path].flat())
+	}
+
+	return [
+		...new Set(inputPaths.map((inputPath): string => path.resolve(inputPath)))
+	]
+}
+
+/**
+ * Reads a list of paths separated by newlines, or by NUL characters as printed
+ * by `git diff --name-only -z`.
+ * @param source - The file to read, or `-` for stdin.
+ * @returns The listed paths.
+ */
+export async function readPathList(source: string): Promise<string[]> {
+	const text =
+		source === '-' ? await readStdin() : await fs.readFile(source, 'utf-8')
+	const separator = text.includes('\0') ? '\0' : /\r?\n/
+	return text.split(separator).filter(Boolean)
+}
+
+/**
+ * Gets the deepest directory that contains all the given directories. Paths
+ * that only share the filesystem root, such as paths on different drives, are
+ * rejected, since the repository, the tsconfig and the watched directories
+ * are looked up from the common directory.
+ * @param directories - The absolute paths of the directories.
+ * @returns The common directory, or the working directory if none are given.
+ */
+export function getCommonDirectory(directories: string[]): string {
+	const [first, ...rest] = directories
+	if (first === undefined) {
+		return process.cwd()
+	}
+
+	let commonDirectory = first
+	for (const directory of rest) {
+		while (
+			!isInDirectory(directory, commonDirectory) &&
+			path.dirname(commonDirectory) !== commonDirectory
+		) {
+			commonDirectory = path.dirname(commonDirectory)
+		}
+	}
+
+	if (
+		path.dirname(commonDirectory) === commonDirectory &&
+		!directories.includes(commonDirectory)
+	) {
+		throw new Error(
+			`The paths only share the filesystem root "${commonDirectory}", process them in separate runs`
+		)
+	}
+	return commonDirectory
+}
+
+/**
+ * Checks whether a path is a directory or inside it.
+ * @param filePath - The absolute path.
+ * @param directory - The absolute path of the directory.
+ */
+function isInDirectory(filePath: string, directory: string): boolean {
+	const relativePath = path.relative(directory, filePath)
+	return (
+		relativePath !== '..' &&
+		!relativePath.startsWith(`..${path.sep}`) &&
+		!path.isAbsolute(relativePath)
+	)
+}
+
+/**
+ * Reads all of stdin.
+ * @returns The text read from stdin.
+ */
+export async function readStdin(): Promise<string> {
+	const chunks: Buffer[] = []
+	for await (const chunk of process.stdin) {
+		chunks.push(Buffer.from(chunk))
+	}
+	return Buffer.concat(chunks).toString('utf-8')
+}
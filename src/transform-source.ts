@@ -0,0 +1,108 @@
+import { type CompilerOptions, Project } from 'ts-morph'
+import {
+	annotateSourceFile,
+	defaultCompilerOptions,
+	type SourceFileAnnotations
+} from './add-function-return-types.js'
+import type { Logger } from './logger.js'
+import { defaultOptions, type FileOptions, type Options } from './options.js'
+
+/**
+ * The options of a source transformation: how the functions are annotated,
+ * the name the code is type-checked under and, when a new Project is created,
+ * its compiler options.
+ */
+export type TransformSourceOptions = Partial<FileOptions> & {
+	/** The path of the code, which decides how it is parsed and how its relative imports resolve. Defaults to `source.ts`. */
+	fileName?: string
+	/** Compiler options on top of the default ones. */
+	compilerOptions?: CompilerOptions
+	/** The start of the only function to annotate, such as the function at the cursor of an editor. Defaults to every function. */
+	functionStart?: number
+	/** Receives the messages about the functions that failed to be annotated. Defaults to the console. */
+	logger?: Logger
+}
+
+/**
+ * The annotated code, with the return types that were added and the functions
+ * that were left without one.
+ */
+export type TransformSourceResult = SourceFileAnnotations & {
+	text: string
+}
+
+const defaultFileName = 'source.ts'
+
+/**
+ * Adds return types to code that is not on disk, in a new Project with an
+ * in-memory file system. The filesystem is never touched, so imports of other
+ * modules do not resolve and their types are `any`.
+ * @param code - The code to annotate.
+ * @param options - The options of the transformation. Options that are left out fall back to the defaults.
+ * @returns The annotated code and the added return types.
+ */
+export function transformSource(
+	code: string,
+	options: TransformSourceOptions = {}
+): TransformSourceResult {
+	const { compilerOptions, ...transformOptions } = options
+	const project = new Project({
+		useInMemoryFileSystem: true,
+		compilerOptions: {
+			...defaultCompilerOptions,
+			// ensureStableDeclarations: declarations are emitted in memory only
+			...(options.ensureStableDeclarations
+				? { declaration: true, noEmit: false }
+				: {}),
+			...compilerOptions
+		}
+	})
+	return transformSourceInProject(project, code, transformOptions)
+}
+
+/**
+ * Adds return types to code that is not on disk, resolving its types in an
+ * existing Project, such as the Project of an editor integration. The code
+ * only lives in the Project while it is annotated: a source file at the same
+ * path is restored afterwards, and nothing is saved. With
+ * `ensureStableDeclarations`, the Project needs the `declaration` compiler
+ * option.
+ * @param project - The ts-morph Project instance.
+ * @param code - The code to annotate.
+ * @param options - The options of the transformation. Options that are left out fall back to the defaults.
+ * @returns The annotated code and the added return types.
+ */
+export function transformSourceInProject(
+	project: Project,
+	code: string,
+	options: Omit<TransformSourceOptions, 'compilerOptions'> = {}
+): TransformSourceResult {
+	const {
+		fileName = defaultFileName,
+		functionStart,
+		logger = defaultOptions.logger,
+		...fileOptions
+	} = options
+	const resolvedOptions: Options = { ...defaultOptions, ...fileOptions, logger }
+
+	const existingText = project.getSourceFile(fileName)?.getFullText()
+	const sourceFile = project.createSourceFile(fileName, code, {
+		overwrite: true
+	})
+
+	try {
+		const annotated = annotateSourceFile(
+			sourceFile,
+			resolvedOptions,
+			undefined,
+			functionStart
+		)
+		return { ...annotated, text: sourceFile.getFullText() }
+	} finally {
+		if (existingText === undefined) {
+			project.removeSourceFile(sourceFile)
+		} else {
+			sourceFile.replaceWithText(existingText)
+		}
+	}
+}
@@ -0,0 +1,38 @@
+import type { ts } from 'ts-morph'
+
+/**
+ * Entry point of the TypeScript language service plugin, which tsserver loads
+ * with `require`. The plugin itself is an ES module, so it is imported in the
+ * background, and the language service is left as it is until it is loaded.
+ * The TypeScript module tsserver provides is not needed, since the functions
+ * are looked up with ts-morph.
+ * @returns The plugin module.
+ */
+function init(): ts.server.PluginModule {
+	return {
+		create: (info): ts.LanguageService => {
+			let languageService: ts.LanguageService | undefined
+			import('./language-service-plugin.js')
+				.then(
+					({ createLanguageService }): Promise<ts.LanguageService> =>
+						createLanguageService(info)
+				)
+				.then((createdLanguageService): void => {
+					languageService = createdLanguageService
+				})
+				.catch((error): void => {
+					info.project.projectService.logger.info(
+						`[add-function-return-types] Failed to load the plugin: ${error instanceof Error ? error.message : String(error)}`
+					)
+				})
+
+			// Every lookup goes to the decorated language service once it is loaded
+			return new Proxy(info.languageService, {
+				get: (target, key): unknown =>
+					Reflect.get(languageService ?? target, key)
+			})
+		}
+	}
+}
+
+export = init
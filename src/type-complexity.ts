@@ -0,0 +1,121 @@
+import { ts } from 'ts-morph'
+import type { Options } from './options.js'
+
+/**
+ * How complex a printed type is.
+ */
+export type TypeComplexity = {
+	/** The number of characters. */
+	length: number
+	/** The number of members of the largest union. */
+	unionMembers: number
+	/** How deeply object types, arrays, tuples, functions and type arguments are nested. */
+	depth: number
+}
+
+type ComplexityBudget = Pick<
+	Options,
+	'maxTypeLength' | 'maxUnionMembers' | 'maxTypeDepth'
+>
+
+/**
+ * Measures the complexity of a type by parsing its text.
+ * @param typeText - The text of the type.
+ * @returns The complexity of the type.
+ */
+export function measureTypeComplexity(typeText: string): TypeComplexity {
+	const sourceFile = ts.createSourceFile(
+		'type-complexity.ts',
+		`type Measured = ${typeText}`,
+		ts.ScriptTarget.Latest
+	)
+	const complexity: TypeComplexity = {
+		length: typeText.length,
+		unionMembers: 0,
+		depth: 0
+	}
+
+	const visit = (node: ts.Node, depth: number): void => {
+		if (ts.isUnionTypeNode(node)) {
+			complexity.unionMembers = Math.max(
+				complexity.unionMembers,
+				node.types.length
+			)
+		}
+
+		const nodeDepth = isNestingTypeNode(node) ? depth + 1 : depth
+		complexity.depth = Math.max(complexity.depth, nodeDepth)
+		ts.forEachChild(node, (child): void => visit(child, nodeDepth))
+	}
+
+	for (const statement of sourceFile.statements) {
+		if (ts.isTypeAliasDeclaration(statement)) {
+			visit(statement.type, 0)
+		}
+	}
+
+	return complexity
+}
+
+/**
+ * Checks whether any limit of the complexity budget is set.
+ * @param budget - The maximum complexity.
+ */
+export function hasComplexityBudget(budget: ComplexityBudget): boolean {
+	return (
+		budget.maxTypeLength !== undefined ||
+		budget.maxUnionMembers !== undefined ||
+		budget.maxTypeDepth !== undefined
+	)
+}
+
+/**
+ * Checks a type against the complexity budget.
+ * @param typeText - The text of the type.
+ * @param budget - The maximum complexity. Limits that are undefined are not checked.
+ * @returns A description of the first exceeded limit, or undefined if the type is within the budget.
+ */
+export function getComplexityBudgetViolation(
+	typeText: string,
+	budget: ComplexityBudget
+): string | undefined {
+	const { maxTypeLength, maxUnionMembers, maxTypeDepth } = budget
+	if (!hasComplexityBudget(budget)) {
+		return undefined
+	}
+
+	const { length, unionMembers, depth } = measureTypeComplexity(typeText)
+
+	if (maxTypeLength !== undefined && length > maxTypeLength) {
+		return `${length} characters, max ${maxTypeLength}`
+	}
+
+	if (maxUnionMembers !== undefined && unionMembers > maxUnionMembers) {
+		return `${unionMembers} union members, max ${maxUnionMembers}`
+	}
+
+	if (maxTypeDepth !== undefined && depth > maxTypeDepth) {
+		return `nesting depth ${depth}, max ${maxTypeDepth}`
+	}
+
+	return undefined
+}
+
+/**
+ * Checks whether a type node nests the types inside it one level deeper.
+ * Unions, intersections and parentheses only group types, so they do not.
+ * @param node - The type node.
+ */
+function isNestingTypeNode(node: ts.Node): boolean {
+	return (
+		ts.isTypeLiteralNode(node) ||
+		ts.isMappedTypeNode(node) ||
+		ts.isArrayTypeNode(node) ||
+		ts.isTupleTypeNode(node) ||
+		ts.isFunctionTypeNode(node) ||
+		ts.isConstructorTypeNode(node) ||
+		((ts.isTypeReferenceNode(node) || ts.isImportTypeNode(node)) &&
+			node.typeArguments !== undefined &&
+			node.typeArguments.length > 0)
+	)
+}
@@ -0,0 +1,80 @@
+import { Node, type Type } from 'ts-morph'
+
+/**
+ * Checks whether a function gets its type from the context it is written in,
+ * following the rules of `allowTypedFunctionExpressions` in typescript-eslint's
+ * `explicit-function-return-type`:
+ * - the value of a variable, class property or parameter with a type annotation
+ * - the operand of an `as` or `satisfies` expression or a type assertion
+ * - an argument of a call or `new` expression
+ * - a property value or method of an object literal
+ * - the value of a JSX attribute
+ *
+ * Arguments, object literal members and JSX attributes only count when the type
+ * checker finds a function type for them, so that callbacks passed to untyped
+ * or `any` parameters are still annotated.
+ * @param node - The function.
+ */
+export function isTypedFunctionExpression(node: Node): boolean {
+	if (Node.isMethodDeclaration(node)) {
+		const objectLiteral = node.getParent()
+		if (!Node.isObjectLiteralExpression(objectLiteral)) {
+			return false
+		}
+
+		const propertyType = objectLiteral
+			.getContextualType()
+			?.getProperty(node.getName())
+			?.getTypeAtLocation(node)
+		return propertyType !== undefined && isFunctionType(propertyType)
+	}
+
+	if (!Node.isFunctionExpression(node) && !Node.isArrowFunction(node)) {
+		return false
+	}
+
+	let expression: Node = node
+	let parent = node.getParent()
+	while (Node.isParenthesizedExpression(parent)) {
+		expression = parent
+		parent = parent.getParent()
+	}
+
+	if (
+		((Node.isVariableDeclaration(parent) ||
+			Node.isPropertyDeclaration(parent) ||
+			Node.isParameterDeclaration(parent)) &&
+			parent.getTypeNode() !== undefined) ||
+		Node.isAsExpression(parent) ||
+		Node.isSatisfiesExpression(parent) ||
+		Node.isTypeAssertion(parent)
+	) {
+		return true
+	}
+
+	const isContextuallyTyped =
+		((Node.isCallExpression(parent) || Node.isNewExpression(parent)) &&
+			parent.getArguments().includes(expression)) ||
+		Node.isPropertyAssignment(parent) ||
+		Node.isJsxExpression(parent)
+	if (!isContextuallyTyped) {
+		return false
+	}
+
+	const contextualType = node.getContextualType()
+	return contextualType !== undefined && isFunctionType(contextualType)
+}
+
+/**
+ * Checks whether a type is a function type, or a union with one, such as the
+ * type of an optional callback.
+ * @param type - The type.
+ */
+function isFunctionType(type: Type): boolean {
+	if (type.isAny()) {
+		return false
+	}
+
+	const types = type.isUnion() ? type.getUnionTypes() : [type]
+	return types.some((member): boolean => member.getCallSignatures().length > 0)
+}
@@ -1,9 +1,58 @@
 import fs from 'node:fs/promises'
 import path from 'node:path'
 import fg from 'fast-glob'
+import {
+	type ArrowFunction,
+	type FunctionDeclaration,
+	type FunctionExpression,
+	type GetAccessorDeclaration,
+	type MethodDeclaration,
+	Node,
+	ts
+} from 'ts-morph'
+import { consoleLogger, type Logger } from './logger.js'
 
 type EntryInternal = Awaited<ReturnType<typeof fg>>[number]
 
+/**
+ * Flags used when printing inferred types, so that they are written in full
+ * and refer to types by the names they are declared with.
+ */
+export const typeFormatFlags =
+	ts.TypeFormatFlags.NoTruncation |
+	ts.TypeFormatFlags.UseAliasDefinedOutsideCurrentScope |
+	ts.TypeFormatFlags.UseTypeOfFunction |
+	ts.TypeFormatFlags.UseFullyQualifiedType
+
+/**
+ * A function that can be given a return type.
+ */
+export type AnnotatableFunction =
+	| FunctionDeclaration
+	| FunctionExpression
+	| ArrowFunction
+	| MethodDeclaration
+	| GetAccessorDeclaration
+
+/**
+ * Checks whether a node is a function that can be given a return type. Accessor
+ * signatures inside types, such as those of added return types, do not count.
+ * @param node - The node.
+ */
+export function isAnnotatableFunction(node: Node): node is AnnotatableFunction {
+	return (
+		(Node.isFunctionDeclaration(node) ||
+			Node.isFunctionExpression(node) ||
+			Node.isArrowFunction(node) ||
+			Node.isMethodDeclaration(node) ||
+			Node.isGetAccessorDeclaration(node)) &&
+		!node.getFirstAncestor(
+			(ancestor): boolean =>
+				Node.isTypeNode(ancestor) || Node.isInterfaceDeclaration(ancestor)
+		)
+	)
+}
+
 /**
  * Recursively searches for .git directory in parent directories
  * @param currentPath - The current directory path
@@ -29,19 +78,23 @@ async function searchForGitFileRecursive(
 /**
  * Finds the repository root directory by looking for .git
  * @param startPath - The starting directory path
+ * @param logger - The logger for progress messages
  * @returns The repository root path or the start path if no .git is found
  */
-export async function findRepoRoot(startPath: string): Promise<string> {
-	console.info('Searching for repository root...')
+export async function findRepoRoot(
+	startPath: string,
+	logger: Logger = consoleLogger
+): Promise<string> {
+	logger.debug('Searching for repository root...')
 
 	const rootPath = await searchForGitFileRecursive(path.resolve(startPath))
 
 	if (rootPath) {
-		console.info(`Found repository root at: "${rootPath}"`)
+		logger.debug(`Found repository root at: "${rootPath}"`)
 		return rootPath
 	}
 
-	console.info(
+	logger.debug(
 		`No .git directory found, using start path as root: "${startPath}"`
 	)
 	return startPath
@@ -50,14 +103,16 @@ export async function findRepoRoot(startPath: string): Promise<string> {
 /**
  * Finds and reads package.json files in the project directory
  * @param startPath - The starting directory path
+ * @param logger - The logger for progress messages
  * @returns An array of package.json file paths
  */
 export async function findPackageJsonFiles(
-	startPath: string
+	startPath: string,
+	logger: Logger = consoleLogger
 ): Promise<EntryInternal[]> {
-	console.info('Looking for package.json files...')
+	logger.debug('Looking for package.json files...')
 	// First find the repository root
-	const repoRoot = await findRepoRoot(startPath)
+	const repoRoot = await findRepoRoot(startPath, logger)
 
 	const patterns = ['**/package.json']
 
@@ -68,10 +123,10 @@ export async function findPackageJsonFiles(
 		absolute: true
 	})
 
-	console.info(`Found ${packageJsonFiles.length} package.json files:`)
+	logger.debug(`Found ${packageJsonFiles.length} package.json files:`)
 
 	for (const file of packageJsonFiles) {
-		console.info(`- "${file}"`)
+		logger.debug(`- "${file}"`)
 	}
 
 	return packageJsonFiles
@@ -80,12 +135,14 @@ export async function findPackageJsonFiles(
 /**
  * Gets dependencies from package.json files
  * @param packageJsonPaths - Array of paths to package.json files
+ * @param logger - The logger for progress messages
  * @returns Array of dependency package names
  */
 export async function getDependencies(
-	packageJsonPaths: string[]
+	packageJsonPaths: string[],
+	logger: Logger = consoleLogger
 ): Promise<string[]> {
-	console.info('Extracting dependencies from package.json files...')
+	logger.debug('Extracting dependencies from package.json files...')
 	const dependencies = new Set<string>()
 
 	for (const packageJsonPath of packageJsonPaths) {
@@ -101,7 +158,7 @@ export async function getDependencies(
 			}
 
 			const depsCount = Object.keys(allDeps).length
-			console.info(
+			logger.debug(
 				`Processing ${depsCount} dependencies from "${packageJsonPath}"`
 			)
 
@@ -109,11 +166,13 @@ export async function getDependencies(
 				dependencies.add(dep)
 			}
 		} catch (error) {
-			console.warn(`Warning: Could not process "${packageJsonPath}":`, error)
+			logger.warn(
+				`Warning: Could not process "${packageJsonPath}": ${error instanceof Error ? error.message : String(error)}`
+			)
 		}
 	}
 
 	const finalDeps = Array.from(dependencies)
-	console.info(`Total unique dependencies: ${finalDeps.length}`)
+	logger.debug(`Total unique dependencies: ${finalDeps.length}`)
 	return finalDeps
 }
@@ -0,0 +1,125 @@
+import {
+	type Diagnostic,
+	DiagnosticCategory,
+	type SourceFile,
+	ts
+} from 'ts-morph'
+import { type AnnotatableFunction, isAnnotatableFunction } from './utils.js'
+
+/**
+ * Gets the compiler errors of a source file as messages, which can be compared
+ * before and after editing, when their positions have moved.
+ * @param sourceFile - The source file.
+ * @returns The messages of the errors.
+ */
+export function getErrorMessages(sourceFile: SourceFile): string[] {
+	return getErrors(sourceFile).map(getErrorMessage)
+}
+
+/**
+ * Gets the compiler errors of a source file that were not there before it was
+ * edited. An error counts as new when it occurs more often than before.
+ * @param sourceFile - The edited source file.
+ * @param previousMessages - The messages of the errors before editing.
+ * @returns The new errors.
+ */
+export function getNewErrors(
+	sourceFile: SourceFile,
+	previousMessages: string[]
+): Diagnostic[] {
+	const remainingCounts = new Map<string, number>()
+	for (const message of previousMessages) {
+		remainingCounts.set(message, (remainingCounts.get(message) ?? 0) + 1)
+	}
+
+	return getErrors(sourceFile).filter((error): boolean => {
+		const message = getErrorMessage(error)
+		const remainingCount = remainingCounts.get(message) ?? 0
+		remainingCounts.set(message, remainingCount - 1)
+		return remainingCount === 0
+	})
+}
+
+/**
+ * Finds the annotated functions that new errors are reported in. An error
+ * belongs to the innermost annotated function that contains it. When none of
+ * the errors are inside an annotated function, they come from the added
+ * imports or extracted types, and belong to all annotated functions.
+ * @param sourceFile - The edited source file.
+ * @param annotatedIndices - The indices of the annotated functions, in the order of `isAnnotatableFunction` nodes.
+ * @param errors - The new errors.
+ * @returns The messages of the errors by the index of the function.
+ */
+export function findBreakingFunctions(
+	sourceFile: SourceFile,
+	annotatedIndices: Set<number>,
+	errors: Diagnostic[]
+): Map<number, string[]> {
+	const annotatedFunctions: [number, AnnotatableFunction][] = []
+	let index = 0
+	sourceFile.forEachDescendant((node): void => {
+		if (isAnnotatableFunction(node)) {
+			if (annotatedIndices.has(index)) {
+				annotatedFunctions.push([index, node])
+			}
+			index++
+		}
+	})
+
+	const breakingFunctions = new Map<number, string[]>()
+	for (const error of errors) {
+		const position = error.getStart()
+		if (position === undefined) {
+			continue
+		}
+
+		// Functions are in document order, so the last one that contains the error is the innermost
+		const match = annotatedFunctions.findLast(
+			([, node]): boolean =>
+				node.getStart() <= position && position < node.getEnd()
+		)
+		if (match) {
+			const [functionIndex] = match
+			breakingFunctions.set(functionIndex, [
+				...(breakingFunctions.get(functionIndex) ?? []),
+				getErrorMessage(error)
+			])
+		}
+	}
+
+	if (breakingFunctions.size === 0) {
+		const messages = errors.map(getErrorMessage)
+		for (const functionIndex of annotatedIndices) {
+			breakingFunctions.set(functionIndex, messages)
+		}
+	}
+
+	return breakingFunctions
+}
+
+/**
+ * Gets the compiler errors of a source file.
+ * @param sourceFile - The source file.
+ * @returns The errors.
+ */
+function getErrors(sourceFile: SourceFile): Diagnostic[] {
+	return sourceFile
+		.getPreEmitDiagnostics()
+		.filter(
+			(diagnostic): boolean =>
+				diagnostic.getCategory() === DiagnosticCategory.Error
+		)
+}
+
+/**
+ * Formats a compiler error like the compiler does, without its position.
+ * @param error - The compiler error.
+ * @returns The code and message of the error, such as "TS2304: Cannot find name 'User'."
+ */
+function getErrorMessage(error: Diagnostic): string {
+	const messageText = ts.flattenDiagnosticMessageText(
+		error.compilerObject.messageText,
+		' '
+	)
+	return `TS${error.getCode()}: ${messageText}`
+}
@@ -0,0 +1,157 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import type { Project } from 'ts-morph'
+import type { Logger } from './logger.js'
+
+/**
+ * How long to wait after the last change before processing the changed files,
+ * so that a file saved several times in a row is processed once.
+ */
+export const watchDebounceMs = 100
+
+/**
+ * What to watch and how to process the files that change.
+ */
+export type WatchSettings = {
+	rootPath: string
+	/**
+	 * Gets the directories to watch, honoring the ignored files, so that
+	 * directories such as `node_modules` are not watched.
+	 */
+	getDirectories: () => Promise<string[]>
+	/** Gets the files to process, honoring the ignored files. */
+	getFiles: () => Promise<string[]>
+	/**
+	 * Processes a changed file, reporting its outcome.
+	 * @returns The text saved to the file, or undefined if it was not saved.
+	 */
+	processFile: (file: string) => Promise<string | undefined>
+	/** Receives the messages about watching. */
+	logger: Logger
+}
+
+/**
+ * Watches the directories of the root path and processes the files that
+ * change, keeping the Project alive between changes. Changed files are read
+ * from disk into the Project before they are processed, and the changes made
+ * by processing a file are ignored. The watched directories are updated after
+ * each change, so that new directories are watched too.
+ * @param project - The ts-morph Project instance.
+ * @param settings - What to watch and how to process the changed files.
+ * @param signal - Stops watching when aborted.
+ * @returns A promise that resolves when watching stops.
+ */
+export async function watchFiles(
+	project: Project,
+	settings: WatchSettings,
+	signal?: AbortSignal
+): Promise<void> {
+	const { rootPath, getDirectories, getFiles, processFile, logger } = settings
+	let knownFiles = new Set(await getFiles())
+	const changedFiles = new Set<string>()
+	// The texts saved by processing files, whose change events are not processed again
+	const savedTexts = new Map<string, string>()
+	const watchers = new Map<string, fs.FSWatcher>()
+	let timeout: NodeJS.Timeout | undefined
+	let queue = Promise.resolve()
+
+	const processChangedFiles = async (): Promise<void> => {
+		const files = new Set(changedFiles)
+		changedFiles.clear()
+
+		// Files matched for the first time, such as the files of a new directory, are processed too
+		const matchedFiles = new Set(await getFiles())
+		for (const file of matchedFiles) {
+			if (!knownFiles.has(file)) {
+				files.add(file)
+			}
+		}
+		knownFiles = matchedFiles
+
+		// The files changed since the last pass are processed one by one, in the order they changed
+		for (const file of files) {
+			const text = await fs.promises
+				.readFile(file, 'utf-8')
+				.catch((): undefined => undefined)
+			if (text !== undefined && text === savedTexts.get(file)) {
+				continue
+			}
+			savedTexts.delete(file)
+
+			// Dependencies of the processed files are refreshed too, so that their types are up to date
+			await project.getSourceFile(file)?.refreshFromFileSystem()
+
+			if (matchedFiles.has(file)) {
+				const savedText = await processFile(file)
+				if (savedText !== undefined) {
+					savedTexts.set(file, savedText)
+				}
+			}
+		}
+
+		await updateWatchers()
+	}
+
+	const onChange = (directory: string, fileName: string | null): void => {
+		if (!fileName || signal?.aborted) {
+			return
+		}
+
+		changedFiles.add(path.join(directory, fileName))
+		clearTimeout(timeout)
+		timeout = setTimeout((): void => {
+			queue = queue.then(processChangedFiles).catch((error): void => {
+				logger.error(
+					`Error processing changed files: ${error instanceof Error ? error.message : String(error)}`
+				)
+			})
+		}, watchDebounceMs)
+	}
+
+	// Each directory is watched on its own, since a recursive watcher would watch the ignored directories too
+	const updateWatchers = async (): Promise<void> => {
+		const directories = new Set(await getDirectories())
+		if (signal?.aborted) {
+			return
+		}
+
+		for (const [directory, watcher] of watchers) {
+			if (!directories.has(directory)) {
+				watcher.close()
+				watchers.delete(directory)
+			}
+		}
+		for (const directory of directories) {
+			if (!watchers.has(directory)) {
+				const watcher = fs.watch(directory, (_eventType, fileName): void =>
+					onChange(directory, fileName)
+				)
+				// A removed directory is watched again once it is listed again
+				watcher.on('error', (): void => {
+					watcher.close()
+					watchers.delete(directory)
+				})
+				watchers.set(directory, watcher)
+			}
+		}
+	}
+
+	await updateWatchers()
+	logger.info(`Watching "${rootPath}" for changes...`)
+
+	return new Promise((resolve): void => {
+		const stop = (): void => {
+			clearTimeout(timeout)
+			for (const watcher of watchers.values()) {
+				watcher.close()
+			}
+			void queue.then(resolve)
+		}
+
+		if (signal?.aborted) {
+			stop()
+			return
+		}
+		signal?.addEventListener('abort', stop, { once: true })
+	})
+}
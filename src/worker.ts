@@ -0,0 +1,39 @@
+import { parentPort, workerData } from 'node:worker_threads'
+import { Project } from 'ts-morph'
+import { processFileSafely } from './add-function-return-types.js'
+import { getFileChangedLines } from './git.js'
+import type { Logger } from './logger.js'
+import type { WorkerData, WorkerMessage } from './workers.js'
+
+// Entry point of the worker threads started by `processFilesInWorkers`
+const { files, options, overrides, projectOptions, changedLines }: WorkerData =
+	workerData
+const project = new Project(projectOptions)
+
+const postMessage = (message: WorkerMessage): void => {
+	parentPort?.postMessage(message)
+}
+const log =
+	(level: keyof Logger): ((message: string) => void) =>
+	(message): void => {
+		postMessage({ level, message })
+	}
+// The messages are logged by the logger of the run, in the main thread
+const logger: Logger = {
+	debug: log('debug'),
+	info: log('info'),
+	warn: log('warn'),
+	error: log('error')
+}
+
+for (const file of files) {
+	postMessage({
+		outcome: await processFileSafely(
+			project,
+			file,
+			{ ...options, logger, signal: undefined },
+			overrides,
+			getFileChangedLines(changedLines, file)
+		)
+	})
+}
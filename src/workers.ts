@@ -0,0 +1,118 @@
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { Worker } from 'node:worker_threads'
+import type { ProjectOptions } from 'ts-morph'
+import type { FileOutcome } from './add-function-return-types.js'
+import type { ResolvedOverride } from './config.js'
+import type { LineRange } from './git.js'
+import type { Logger } from './logger.js'
+import type { Options } from './options.js'
+
+/**
+ * The data a worker thread is started with. Each worker builds its own
+ * Project from the same project options. The logger and the abort signal
+ * cannot be passed to a thread, so the worker sends its messages back instead.
+ */
+export type WorkerData = {
+	files: string[]
+	options: Omit<Options, 'logger' | 'signal'>
+	overrides: ResolvedOverride[]
+	projectOptions: ProjectOptions
+	/** The changed lines by file, if only changed lines are processed. */
+	changedLines: Map<string, LineRange[]> | undefined
+}
+
+/**
+ * A message from a worker thread: the outcome of a file, or a message for the
+ * logger of the run.
+ */
+export type WorkerMessage =
+	| { outcome: FileOutcome }
+	| { level: keyof Logger; message: string }
+
+/**
+ * Splits the files into contiguous shards, one per worker thread, so that
+ * files in the same directory tend to share a Project, and processes them.
+ * @param files - The files to process.
+ * @param concurrency - The number of worker threads.
+ * @param settings - The options, overrides and project options for the workers.
+ * @param onFileProcessed - Called with the outcome of each file as soon as it is processed.
+ */
+export async function processFilesInWorkers(
+	files: string[],
+	concurrency: number,
+	settings: Omit<WorkerData, 'files' | 'options'> & { options: Options },
+	onFileProcessed: (outcome: FileOutcome) => void
+): Promise<void> {
+	const { logger, signal: _signal, ...options } = settings.options
+	const shardSize = Math.ceil(files.length / concurrency)
+	const shards: string[][] = []
+	for (let start = 0; start < files.length; start += shardSize) {
+		shards.push(files.slice(start, start + shardSize))
+	}
+
+	await Promise.all(
+		shards.map(
+			(shard): Promise<void> =>
+				runWorker(
+					{ ...settings, options, files: shard },
+					logger,
+					onFileProcessed
+				)
+		)
+	)
+}
+
+/**
+ * Runs a worker thread on a shard of files. When the worker crashes, the files
+ * it did not get to are reported as failed.
+ * @param workerData - The data to start the worker with.
+ * @param logger - Receives the messages of the worker.
+ * @param onFileProcessed - Called with the outcome of each file.
+ */
+async function runWorker(
+	workerData: WorkerData,
+	logger: Logger,
+	onFileProcessed: (outcome: FileOutcome) => void
+): Promise<void> {
+	const extension = path.extname(fileURLToPath(import.meta.url))
+	const workerUrl = new URL(`./worker${extension}`, import.meta.url)
+
+	const remainingFiles = new Set(workerData.files)
+	const failRemainingFiles = (error: string): void => {
+		for (const file of remainingFiles) {
+			onFileProcessed({ file, durationMs: 0, error })
+		}
+		remainingFiles.clear()
+	}
+
+	return new Promise((resolve): void => {
+		// Running from the TypeScript sources, such as in tests, needs tsx to load the worker
+		const worker =
+			extension === '.ts'
+				? new Worker(
+						`import('tsx/esm/api').then(({ register }) => { register(); return import(${JSON.stringify(workerUrl.href)}) })`,
+						{ eval: true, workerData }
+					)
+				: new Worker(workerUrl, { workerData })
+
+		worker.on('message', (message: WorkerMessage): void => {
+			if ('level' in message) {
+				logger[message.level](message.message)
+				return
+			}
+
+			remainingFiles.delete(message.outcome.file)
+			onFileProcessed(message.outcome)
+		})
+		worker.on('error', (error): void => {
+			failRemainingFiles(
+				`Worker thread failed: ${error instanceof Error ? error.message : String(error)}`
+			)
+		})
+		worker.on('exit', (exitCode): void => {
+			failRemainingFiles(`Worker thread exited with code ${exitCode}`)
+			resolve()
+		})
+	})
+}
@@ -2,20 +2,61 @@ import crypto from 'node:crypto'
 import fs from 'node:fs/promises'
 import os from 'node:os'
 import path from 'node:path'
-import { describe, expect, it } from 'vitest'
-import { addFunctionReturnTypes } from '../src/add-function-return-types'
+import { setTimeout as wait } from 'node:timers/promises'
+import { execa } from 'execa'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import {
+	addFunctionReturnTypes,
+	checkFailedExitCode,
+	type RunResult
+} from '../src/add-function-return-types'
+import { undoRun } from '../src/journal'
+import type { Logger } from '../src/logger'
 import { defaultOptions, type Options } from '../src/options'
+import { watchDebounceMs } from '../src/watch'
 
 describe.concurrent('add-function-return-types', (): void => {
 	// Use RUNNER_TEMP if available to avoid access errors in GHA
 	const tmpDir = process.env.RUNNER_TEMP || os.tmpdir()
 
+	// Each test records the messages of its own runs, since console spies are shared by concurrent tests
+	const createRecordingLogger = (): Logger & {
+		messages: [keyof Logger, string][]
+	} => {
+		const messages: [keyof Logger, string][] = []
+		const record =
+			(level: keyof Logger): ((message: string) => void) =>
+			(message): void => {
+				messages.push([level, message])
+			}
+		return {
+			messages,
+			debug: record('debug'),
+			info: record('info'),
+			warn: record('warn'),
+			error: record('error')
+		}
+	}
+
+	// The journals of the runs are written to a temporary cache instead of the cache of the repository
+	let journalCacheLocation: string
+	beforeAll(async (): Promise<void> => {
+		journalCacheLocation = await fs.mkdtemp(tmpDir)
+	})
+	afterAll(async (): Promise<void> => {
+		await fs.rm(journalCacheLocation, { recursive: true, force: true })
+	})
+
 	// Helper function to run the addFunctionReturnTypes with overridden options
 	const runAddFunctionReturnTypes = async (
 		overrides: Partial<Options> = {}
-	): Promise<void> => {
-		const options: Options = { ...defaultOptions, ...overrides }
-		await addFunctionReturnTypes(options)
+	): Promise<RunResult> => {
+		const options: Options = {
+			...defaultOptions,
+			cacheLocation: journalCacheLocation,
+			...overrides
+		}
+		return addFunctionReturnTypes(options)
 	}
 
 	it('handles functions without explicit return types', async (): Promise<void> => {
@@ -901,6 +942,7 @@ const typedFunction: () => number = function() {
 		const updatedSource = await fs.readFile(filePath, 'utf-8')
 
 		await runAddFunctionReturnTypes({
+			path: testDir,
 			overwrite: true,
 			ignoreHigherOrderFunctions: true
 		})
@@ -1514,4 +1556,1242 @@ export const useSortTags = (
 		const updatedSource = await fs.readFile(filePath, 'utf-8')
 		expect(updatedSource).toContain(": TagsQuery['team']['tags']['edges'] => {")
 	})
+
+	it('applies the config file and its overrides', async (): Promise<void> => {
+		const sourceCode = `
+const value = (() => {
+  return 42;
+})();
+`.trim()
+
+		const testDir = await fs.mkdtemp(tmpDir)
+		await fs.mkdir(path.join(testDir, 'src'))
+		await fs.mkdir(path.join(testDir, 'test'))
+		const srcFilePath = path.join(testDir, 'src', `${crypto.randomUUID()}.ts`)
+		const testFilePath = path.join(testDir, 'test', `${crypto.randomUUID()}.ts`)
+		await fs.writeFile(srcFilePath, sourceCode)
+		await fs.writeFile(testFilePath, sourceCode)
+		await fs.writeFile(
+			path.join(testDir, 'add-function-return-types.config.json'),
+			JSON.stringify({
+				overrides: [{ files: ['test/**'], ignoreIIFEs: true }]
+			})
+		)
+
+		await addFunctionReturnTypes({
+			path: testDir,
+			cacheLocation: journalCacheLocation
+		})
+
+		const updatedSrcFile = await fs.readFile(srcFilePath, 'utf-8')
+		const updatedTestFile = await fs.readFile(testFilePath, 'utf-8')
+		expect(updatedSrcFile).toContain('const value = ((): number => {')
+		expect(updatedTestFile).toBe(sourceCode)
+	})
+
+	it('matches the ignored files of the config file relative to its directory', async (): Promise<void> => {
+		const sourceCode = 'export const getValue = () => 42;\n'
+
+		const testDir = await fs.mkdtemp(tmpDir)
+		await fs.mkdir(path.join(testDir, 'src', 'generated'), { recursive: true })
+		const filePath = path.join(testDir, 'src', `${crypto.randomUUID()}.ts`)
+		const generatedFilePath = path.join(
+			testDir,
+			'src',
+			'generated',
+			`${crypto.randomUUID()}.ts`
+		)
+		await fs.writeFile(filePath, sourceCode)
+		await fs.writeFile(generatedFilePath, sourceCode)
+		const configPath = path.join(
+			testDir,
+			'add-function-return-types.config.json'
+		)
+		await fs.writeFile(
+			configPath,
+			JSON.stringify({ ignoreFiles: ['src/generated/**'] })
+		)
+
+		// Only a subdirectory of the directory of the config file is processed
+		await addFunctionReturnTypes({
+			path: path.join(testDir, 'src'),
+			config: configPath,
+			cacheLocation: journalCacheLocation
+		})
+
+		expect(await fs.readFile(filePath, 'utf-8')).toContain(
+			'export const getValue = (): number => 42;'
+		)
+		expect(await fs.readFile(generatedFilePath, 'utf-8')).toBe(sourceCode)
+	})
+
+	it('lists functions without return types and fails in check mode', async (): Promise<void> => {
+		const sourceCode = `
+function greet(name: string) {
+  return 'Hello, ' + name;
+}
+
+const getNumber = (): number => 42;
+
+const getString = () => 'hello';
+`.trim()
+
+		const testDir = await fs.mkdtemp(tmpDir)
+		const filePath = path.join(testDir, `${crypto.randomUUID()}.ts`)
+		await fs.writeFile(filePath, sourceCode)
+
+		const logger = createRecordingLogger()
+
+		const result = await runAddFunctionReturnTypes({
+			path: testDir,
+			check: true,
+			logger
+		})
+		expect(result.exitCode).toBe(checkFailedExitCode)
+
+		expect(logger.messages).toContainEqual([
+			'error',
+			`  - ${filePath}:1:1 - greet: string`
+		])
+		expect(logger.messages).toContainEqual([
+			'error',
+			`  - ${filePath}:7:19 - getString: string`
+		])
+
+		const updatedSource = await fs.readFile(filePath, 'utf-8')
+		expect(updatedSource).toBe(sourceCode)
+	})
+
+	it('lists functions on the same line at their original columns in check mode', async (): Promise<void> => {
+		const sourceCode = `
+const pair = [() => 'a', () => 1];
+
+const outer = () => () => true;
+`.trim()
+
+		const testDir = await fs.mkdtemp(tmpDir)
+		const filePath = path.join(testDir, `${crypto.randomUUID()}.ts`)
+		await fs.writeFile(filePath, sourceCode)
+
+		const logger = createRecordingLogger()
+
+		await runAddFunctionReturnTypes({ path: testDir, check: true, logger })
+
+		// The return types added to the functions before them on the line do not move them
+		const listed = logger.messages
+			.filter(([, message]): boolean => message.startsWith('  - '))
+			.map(([, message]): string => message)
+		expect(listed).toEqual([
+			`  - ${filePath}:1:15 - <anonymous>: string`,
+			`  - ${filePath}:1:26 - <anonymous>: number`,
+			`  - ${filePath}:3:15 - outer: () => boolean`,
+			`  - ${filePath}:3:21 - <anonymous>: true`
+		])
+	})
+
+	it('writes a patch that can be applied with git apply in dry run mode', async (): Promise<void> => {
+		const sourceCode = `
+function greet(name: string) {
+  return 'Hello, ' + name;
+}
+`.trim()
+
+		const testDir = await fs.mkdtemp(tmpDir)
+		await execa('git', ['init', '--quiet'], { cwd: testDir })
+		await fs.mkdir(path.join(testDir, 'src'))
+		const filePath = path.join(testDir, 'src', `${crypto.randomUUID()}.ts`)
+		await fs.writeFile(filePath, sourceCode)
+		const patchPath = path.join(testDir, 'changes.patch')
+
+		await runAddFunctionReturnTypes({
+			path: path.join(testDir, 'src'),
+			dryRun: true,
+			outputPatch: patchPath
+		})
+
+		expect(await fs.readFile(filePath, 'utf-8')).toBe(sourceCode)
+
+		await execa('git', ['apply', patchPath], { cwd: testDir })
+
+		const updatedSource = await fs.readFile(filePath, 'utf-8')
+		expect(updatedSource).toContain('function greet(name: string): string {')
+	})
+
+	it('prints a diff of the changes without modifying files in diff mode', async (): Promise<void> => {
+		const sourceCode = `
+function greet(name: string) {
+  return 'Hello, ' + name;
+}
+`.trim()
+
+		const testDir = await fs.mkdtemp(tmpDir)
+		const filePath = path.join(testDir, `${crypto.randomUUID()}.ts`)
+		await fs.writeFile(filePath, sourceCode)
+
+		const logger = createRecordingLogger()
+
+		const result = await runAddFunctionReturnTypes({
+			path: testDir,
+			diff: true,
+			logger
+		})
+
+		expect(logger.messages).toContainEqual([
+			'info',
+			expect.stringContaining('+function greet(name: string): string {')
+		])
+		expect(result.files).toEqual([
+			expect.objectContaining({ filePath, status: 'wouldModify' })
+		])
+		expect(result.runId).toBeUndefined()
+		expect(await fs.readFile(filePath, 'utf-8')).toBe(sourceCode)
+	})
+
+	it('imports types referenced by the return type that are not in scope', async (): Promise<void> => {
+		const testDir = await fs.mkdtemp(tmpDir)
+		await fs.mkdir(path.join(testDir, 'models'))
+		await fs.writeFile(
+			path.join(testDir, 'models', 'user.ts'),
+			`
+export interface User { id: string }
+export enum Role { Admin, Member }
+export function createUser(): User { return { id: '1' } }
+`.trim()
+		)
+		await fs.writeFile(
+			path.join(testDir, 'settings.ts'),
+			'export type Settings = { theme: string }'
+		)
+		await fs.writeFile(
+			path.join(testDir, 'repository.ts'),
+			`
+import { type User, Role } from './models/user.js'
+import type { Settings } from './settings.js'
+export function findUser(): User | undefined { return undefined }
+export function getRole(): Role { return Role.Admin }
+export function getSettings(): Settings[] { return [] }
+`.trim()
+		)
+
+		const sourceCode = `
+import { createUser } from './models/user.js'
+import { findUser, getRole, getSettings } from './repository.js'
+
+export function loadUser() {
+  return findUser() ?? createUser()
+}
+
+export function loadRole() {
+  return getRole()
+}
+
+export function loadSettings() {
+  return getSettings()
+}
+`.trim()
+		const filePath = path.join(testDir, 'service.ts')
+		await fs.writeFile(filePath, sourceCode)
+
+		await runAddFunctionReturnTypes({ path: testDir })
+
+		const updatedSource = await fs.readFile(filePath, 'utf-8')
+		expect(updatedSource).toContain(
+			"import { createUser, User, Role } from './models/user.js'"
+		)
+		expect(updatedSource).toContain('export function loadUser(): User {')
+		expect(updatedSource).toContain('export function loadRole(): Role {')
+		expect(updatedSource).toContain(
+			"import { findUser, getRole, getSettings } from './repository.js'\nimport type { Settings } from './settings.js'"
+		)
+		expect(updatedSource).toContain(
+			'export function loadSettings(): Settings[] {'
+		)
+	})
+
+	it('writes relative module specifiers instead of absolute paths in import types', async (): Promise<void> => {
+		const testDir = await fs.mkdtemp(tmpDir)
+		await fs.mkdir(path.join(testDir, 'models'))
+		await fs.writeFile(
+			path.join(testDir, 'models', 'user.ts'),
+			'export interface User { id: string }'
+		)
+
+		const sourceCode = `
+export function loadUserModule() {
+  return import('./models/user.js')
+}
+`.trim()
+		const filePath = path.join(testDir, 'service.ts')
+		await fs.writeFile(filePath, sourceCode)
+
+		await runAddFunctionReturnTypes({ path: testDir })
+
+		const updatedSource = await fs.readFile(filePath, 'utf-8')
+		expect(updatedSource).toContain(
+			'export function loadUserModule(): Promise<typeof import("./models/user.js")> {'
+		)
+		expect(updatedSource).not.toContain(testDir)
+	})
+
+	it('extracts anonymous object return types into named type aliases', async (): Promise<void> => {
+		const sourceCode = `
+const GetUserResult = 'taken'
+
+export function getUser(id: string) {
+	return { id, tags: ['admin'] }
+}
+
+const loadUser = async (id: string) => {
+	return { id }
+}
+
+function wrap<T>(value: T) {
+	return { value }
+}
+`.trim()
+
+		const testDir = await fs.mkdtemp(tmpDir)
+		const filePath = path.join(testDir, `${crypto.randomUUID()}.ts`)
+		await fs.writeFile(filePath, sourceCode)
+
+		await runAddFunctionReturnTypes({
+			path: testDir,
+			extractObjectTypes: true
+		})
+
+		const updatedSource = await fs.readFile(filePath, 'utf-8')
+		expect(updatedSource).toBe(
+			`
+const GetUserResult = 'taken'
+
+export type GetUserResult2 = {
+	id: string
+	tags: string[]
+}
+
+export function getUser(id: string): GetUserResult2 {
+	return { id, tags: ['admin'] }
+}
+
+type LoadUserResult = {
+	id: string
+}
+
+const loadUser = async (id: string): Promise<LoadUserResult> => {
+	return { id }
+}
+
+function wrap<T>(value: T): { value: T; } {
+	return { value }
+}
+`.trim()
+		)
+	})
+
+	it('writes object return types inline that refer to types declared inside the function', async (): Promise<void> => {
+		const sourceCode = `
+export function render() {
+  type Item = { id: string };
+  const items: Item[] = [];
+  const getFirst = () => {
+    return { item: items[0] };
+  };
+  return getFirst().item?.id;
+}
+`.trim()
+
+		const testDir = await fs.mkdtemp(tmpDir)
+		const filePath = path.join(testDir, `${crypto.randomUUID()}.ts`)
+		await fs.writeFile(filePath, sourceCode)
+
+		await runAddFunctionReturnTypes({
+			path: testDir,
+			extractObjectTypes: true
+		})
+
+		// Item is not in scope next to render, where the type would be declared
+		const updatedSource = await fs.readFile(filePath, 'utf-8')
+		expect(updatedSource).toBe(
+			`
+export function render(): string | undefined {
+  type Item = { id: string };
+  const items: Item[] = [];
+  const getFirst = (): { item: Item | undefined; } => {
+    return { item: items[0] };
+  };
+  return getFirst().item?.id;
+}
+`.trim()
+		)
+	})
+
+	it('extracts anonymous object return types into interfaces even if ignoreAnonymousObjects is true', async (): Promise<void> => {
+		const sourceCode = `
+export class UserService {
+  getStats() {
+    return { count: 1 };
+  }
+
+  getCounts() {
+    return [{ count: 1 }];
+  }
+}
+`.trim()
+
+		const testDir = await fs.mkdtemp(tmpDir)
+		const filePath = path.join(testDir, `${crypto.randomUUID()}.ts`)
+		await fs.writeFile(filePath, sourceCode)
+
+		await runAddFunctionReturnTypes({
+			path: testDir,
+			extractObjectTypes: true,
+			extractedTypeKind: 'interface',
+			ignoreAnonymousObjects: true
+		})
+
+		const updatedSource = await fs.readFile(filePath, 'utf-8')
+		expect(updatedSource).toBe(
+			`
+export interface GetStatsResult {
+  count: number;
+}
+
+export class UserService {
+  getStats(): GetStatsResult {
+    return { count: 1 };
+  }
+
+  getCounts() {
+    return [{ count: 1 }];
+  }
+}
+`.trim()
+		)
+	})
+
+	it('skips and lists functions with return types over the complexity budget', async (): Promise<void> => {
+		const sourceCode = `
+function getStatus(code: number) {
+  if (code === 1) return 'active';
+  if (code === 2) return 'inactive';
+  return 'unknown';
+}
+
+function getCode() {
+  return 1;
+}
+`.trim()
+
+		const testDir = await fs.mkdtemp(tmpDir)
+		const filePath = path.join(testDir, `${crypto.randomUUID()}.ts`)
+		await fs.writeFile(filePath, sourceCode)
+
+		const logger = createRecordingLogger()
+
+		await runAddFunctionReturnTypes({
+			path: testDir,
+			maxUnionMembers: 2,
+			logger
+		})
+
+		expect(logger.messages).toContainEqual([
+			'warn',
+			`  - ${filePath}:1:1 - getStatus (3 union members, max 2)`
+		])
+
+		const updatedSource = await fs.readFile(filePath, 'utf-8')
+		expect(updatedSource).toContain('function getStatus(code: number) {')
+		expect(updatedSource).toContain('function getCode(): number {')
+	})
+
+	it('measures the complexity budget on return types with their import types rewritten', async (): Promise<void> => {
+		const testDir = await fs.mkdtemp(tmpDir)
+		await fs.mkdir(path.join(testDir, 'models'))
+		await fs.writeFile(
+			path.join(testDir, 'models', 'user.ts'),
+			'export interface User { id: string }'
+		)
+		const filePath = path.join(testDir, 'service.ts')
+		await fs.writeFile(
+			filePath,
+			"export function loadUserModule() {\n  return import('./models/user.js')\n}\n"
+		)
+
+		// The type is inferred with the absolute path of the module, which is longer than the budget
+		await runAddFunctionReturnTypes({ path: testDir, maxTypeLength: 45 })
+
+		const updatedSource = await fs.readFile(filePath, 'utf-8')
+		expect(updatedSource).toContain(
+			'export function loadUserModule(): Promise<typeof import("./models/user.js")> {'
+		)
+	})
+
+	it('extracts return types over the complexity budget into type aliases', async (): Promise<void> => {
+		const sourceCode = `
+export async function getStatus(code: number) {
+  if (code === 1) return 'active';
+  if (code === 2) return 'inactive';
+  return 'unknown';
+}
+
+const getLabel = (code: number) => (code === 1 ? 'one' : code === 2 ? 'two' : 'many');
+`.trim()
+
+		const testDir = await fs.mkdtemp(tmpDir)
+		const filePath = path.join(testDir, `${crypto.randomUUID()}.ts`)
+		await fs.writeFile(filePath, sourceCode)
+
+		await runAddFunctionReturnTypes({
+			path: testDir,
+			maxTypeLength: 20,
+			complexTypePolicy: 'extract'
+		})
+
+		const updatedSource = await fs.readFile(filePath, 'utf-8')
+		expect(updatedSource).toBe(
+			`
+export type GetStatusResult = "active" | "inactive" | "unknown";
+
+export async function getStatus(code: number): Promise<GetStatusResult> {
+  if (code === 1) return 'active';
+  if (code === 2) return 'inactive';
+  return 'unknown';
+}
+
+type GetLabelResult = "one" | "two" | "many";
+
+const getLabel = (code: number): GetLabelResult => (code === 1 ? 'one' : code === 2 ? 'two' : 'many');
+`.trim()
+		)
+	})
+
+	it('handles get accessors in classes and object literals', async (): Promise<void> => {
+		const sourceCode = `
+class User {
+  private _name = 'Jane';
+
+  get name() {
+    return this._name;
+  }
+
+  set name(value) {
+    this._name = value;
+  }
+
+  get id() {
+    return 1;
+  }
+
+  set id(value: number | string) {
+    this._name = String(value);
+  }
+}
+
+const settings = {
+  get enabled() {
+    return true;
+  }
+};
+`.trim()
+
+		const testDir = await fs.mkdtemp(tmpDir)
+		const filePath = path.join(testDir, `${crypto.randomUUID()}.ts`)
+		await fs.writeFile(filePath, sourceCode)
+
+		await runAddFunctionReturnTypes({ path: testDir })
+
+		const updatedSource = await fs.readFile(filePath, 'utf-8')
+		expect(updatedSource).toContain('get name(): string {')
+		expect(updatedSource).toContain('set name(value) {')
+		// The getter has the type of the annotated setter parameter, which stays compatible
+		expect(updatedSource).toContain('get id(): number | string {')
+		expect(updatedSource).toContain('get enabled(): boolean {')
+	})
+
+	it('keeps the return types of get accessors paired with set accessors if overwrite is true', async (): Promise<void> => {
+		const sourceCode = `
+class Temperature {
+  private celsius = 0;
+
+  get value(): number {
+    return this.celsius;
+  }
+
+  set value(value: number | string) {
+    this.celsius = Number(value);
+  }
+
+  get label(): any {
+    return 'Temperature';
+  }
+}
+`.trim()
+
+		const testDir = await fs.mkdtemp(tmpDir)
+		const filePath = path.join(testDir, `${crypto.randomUUID()}.ts`)
+		await fs.writeFile(filePath, sourceCode)
+
+		const result = await runAddFunctionReturnTypes({
+			path: testDir,
+			overwrite: true
+		})
+
+		// The getter is deliberately narrower than the setter, and is not widened to its type
+		const updatedSource = await fs.readFile(filePath, 'utf-8')
+		expect(updatedSource).toContain('get value(): number {')
+		expect(updatedSource).toContain('get label(): string {')
+		expect(result.files[0]?.skippedFunctions).toContainEqual(
+			expect.objectContaining({
+				name: 'value',
+				reason:
+					'Kept the return type of a get accessor paired with a set accessor'
+			})
+		)
+	})
+
+	it('ignores get accessors if ignoreAccessors is true', async (): Promise<void> => {
+		const sourceCode = `
+class User {
+  get name() {
+    return 'Jane';
+  }
+
+  getName() {
+    return 'Jane';
+  }
+}
+`.trim()
+
+		const testDir = await fs.mkdtemp(tmpDir)
+		const filePath = path.join(testDir, `${crypto.randomUUID()}.ts`)
+		await fs.writeFile(filePath, sourceCode)
+
+		await runAddFunctionReturnTypes({ path: testDir, ignoreAccessors: true })
+
+		const updatedSource = await fs.readFile(filePath, 'utf-8')
+		expect(updatedSource).toContain('get name() {')
+		expect(updatedSource).toContain('getName(): string {')
+	})
+
+	it('ignores functions typed by their context if ignoreTypedFunctionExpressions is true', async (): Promise<void> => {
+		const sourceCode = `
+declare global {
+  namespace JSX {
+    interface Element {}
+    interface IntrinsicElements {}
+  }
+}
+
+type Handler = { onSave: (id: number) => string; onLoad(): void };
+
+function Button(props: { onClick?: () => void }): JSX.Element {
+  return {};
+}
+
+function callLater(callback: any) {
+  return callback;
+}
+
+export const ids = [1, 2].map((id) => id * 2);
+export const handler: Handler = {
+  onSave: (id) => String(id),
+  onLoad() {
+    return;
+  }
+};
+export const asserted = (() => 1) as () => number;
+export const satisfied = (() => 1) satisfies () => number;
+export const button = <Button onClick={() => console.log('clicked')} />;
+export const later = callLater(() => 1);
+export const untyped = { run: () => 1 };
+`.trim()
+
+		const testDir = await fs.mkdtemp(tmpDir)
+		const filePath = path.join(testDir, `${crypto.randomUUID()}.tsx`)
+		await fs.writeFile(filePath, sourceCode)
+
+		await runAddFunctionReturnTypes({
+			path: testDir,
+			ignoreTypedFunctionExpressions: true
+		})
+
+		const updatedSource = await fs.readFile(filePath, 'utf-8')
+		expect(updatedSource).toContain('[1, 2].map((id) => id * 2)')
+		expect(updatedSource).toContain('onSave: (id) => String(id)')
+		expect(updatedSource).toContain('onLoad() {')
+		expect(updatedSource).toContain('(() => 1) as () => number')
+		expect(updatedSource).toContain('(() => 1) satisfies () => number')
+		expect(updatedSource).toContain("onClick={() => console.log('clicked')}")
+		// Callbacks passed to any and properties of untyped objects are still annotated
+		expect(updatedSource).toContain('callLater((): number => 1)')
+		expect(updatedSource).toContain('{ run: (): number => 1 }')
+	})
+
+	it('only annotates the exported API if exportedOnly is true', async (): Promise<void> => {
+		const sourceCode = `
+export function getUser() {
+  const format = () => 'user';
+  return format();
+}
+
+export const getCount = () => 1;
+
+function getName() {
+  return 'name';
+}
+
+function internalHelper() {
+  return 'internal';
+}
+
+export class UserService {
+  list() {
+    return [1];
+  }
+
+  protected count() {
+    return 1;
+  }
+
+  private load() {
+    return 1;
+  }
+
+  #cache() {
+    return 1;
+  }
+}
+
+class InternalService {
+  list() {
+    return [1];
+  }
+}
+
+export { getName as getDisplayName };
+
+export default () => true;
+`.trim()
+
+		const testDir = await fs.mkdtemp(tmpDir)
+		const filePath = path.join(testDir, `${crypto.randomUUID()}.ts`)
+		await fs.writeFile(filePath, sourceCode)
+
+		await runAddFunctionReturnTypes({ path: testDir, exportedOnly: true })
+
+		const updatedSource = await fs.readFile(filePath, 'utf-8')
+		expect(updatedSource).toContain('export function getUser(): string {')
+		expect(updatedSource).toContain("const format = () => 'user';")
+		expect(updatedSource).toContain('export const getCount = (): number => 1;')
+		expect(updatedSource).toContain('function getName(): string {')
+		expect(updatedSource).toContain('function internalHelper() {')
+		expect(updatedSource).toContain(
+			'  list(): number[] {\n    return [1];\n  }\n\n  protected'
+		)
+		expect(updatedSource).toContain('protected count(): number {')
+		expect(updatedSource).toContain('private load() {')
+		expect(updatedSource).toContain('#cache() {')
+		expect(updatedSource).toContain('class InternalService {\n  list() {')
+		expect(updatedSource).toContain('export default (): boolean => true;')
+	})
+
+	it('processes files in worker threads and combines the results', async (): Promise<void> => {
+		const testDir = await fs.mkdtemp(tmpDir)
+		const filePaths = await Promise.all(
+			[1, 2, 3].map(async (index): Promise<string> => {
+				const filePath = path.join(testDir, `file-${index}.ts`)
+				await fs.writeFile(
+					filePath,
+					`export function getValue${index}() {\n  return ${index};\n}\n`
+				)
+				return filePath
+			})
+		)
+
+		const patchPath = path.join(testDir, 'changes.patch')
+		await runAddFunctionReturnTypes({
+			path: testDir,
+			concurrency: 2,
+			outputPatch: patchPath
+		})
+
+		for (const [index, filePath] of filePaths.entries()) {
+			const updatedSource = await fs.readFile(filePath, 'utf-8')
+			expect(updatedSource).toContain(
+				`export function getValue${index + 1}(): number {`
+			)
+		}
+
+		// The patch lists the files in order, however the workers finished
+		const patch = await fs.readFile(patchPath, 'utf-8')
+		const patchedFiles = [...patch.matchAll(/^diff --git a\/(\S+)/gm)].map(
+			(match): string => path.basename(match[1] ?? '')
+		)
+		expect(patchedFiles).toEqual(['file-1.ts', 'file-2.ts', 'file-3.ts'])
+	})
+	it('skips cached files until they or their dependencies change', async (): Promise<void> => {
+		const testDir = await fs.mkdtemp(tmpDir)
+		const cacheLocation = path.join(testDir, '.cache')
+		const utilPath = path.join(testDir, 'util.ts')
+		await fs.writeFile(
+			utilPath,
+			'export function getId(): number {\n  return 1;\n}\n'
+		)
+		await fs.writeFile(
+			path.join(testDir, 'main.ts'),
+			"import { getId } from './util.js';\n\nexport function run() {\n  return getId();\n}\n"
+		)
+
+		const logger = createRecordingLogger()
+
+		// The first run annotates main.ts, so only util.ts is cached
+		await runAddFunctionReturnTypes({
+			path: testDir,
+			cache: true,
+			cacheLocation,
+			logger
+		})
+		expect(logger.messages).toContainEqual([
+			'info',
+			`Skipping 0 unchanged file(s) found in the cache at "${cacheLocation}"`
+		])
+
+		await runAddFunctionReturnTypes({
+			path: testDir,
+			cache: true,
+			cacheLocation,
+			logger
+		})
+		expect(logger.messages).toContainEqual([
+			'info',
+			`Skipping 1 unchanged file(s) found in the cache at "${cacheLocation}"`
+		])
+
+		await runAddFunctionReturnTypes({
+			path: testDir,
+			cache: true,
+			cacheLocation,
+			logger
+		})
+		expect(logger.messages).toContainEqual([
+			'info',
+			`Skipping 2 unchanged file(s) found in the cache at "${cacheLocation}"`
+		])
+
+		// Changing util.ts invalidates main.ts, which imports it
+		await fs.writeFile(
+			utilPath,
+			'export function getId(): number {\n  return 2;\n}\n'
+		)
+		logger.messages.length = 0
+		await runAddFunctionReturnTypes({
+			path: testDir,
+			cache: true,
+			cacheLocation,
+			logger
+		})
+		expect(logger.messages).toContainEqual([
+			'info',
+			`Skipping 0 unchanged file(s) found in the cache at "${cacheLocation}"`
+		])
+
+		const updatedSource = await fs.readFile(
+			path.join(testDir, 'main.ts'),
+			'utf-8'
+		)
+		expect(updatedSource).toContain('export function run(): number {')
+	})
+	it('only processes staged files if staged is true', async (): Promise<void> => {
+		const sourceCode = `
+export function getValue() {
+  return 1;
+}
+`.trim()
+
+		const testDir = await fs.mkdtemp(tmpDir)
+		await execa('git', ['init', '--quiet'], { cwd: testDir })
+		const stagedPath = path.join(testDir, 'staged.ts')
+		const unstagedPath = path.join(testDir, 'unstaged.ts')
+		await fs.writeFile(stagedPath, sourceCode)
+		await fs.writeFile(unstagedPath, sourceCode)
+		await execa('git', ['add', 'staged.ts'], { cwd: testDir })
+
+		await runAddFunctionReturnTypes({ path: testDir, staged: true })
+
+		expect(await fs.readFile(stagedPath, 'utf-8')).toContain(
+			'export function getValue(): number {'
+		)
+		expect(await fs.readFile(unstagedPath, 'utf-8')).toBe(sourceCode)
+	})
+	it('only annotates functions spanning changed lines if changedLinesOnly is true', async (): Promise<void> => {
+		const sourceCode = `
+export function getFirst() {
+  return 1;
+}
+
+export function getSecond() {
+  return 2;
+}
+`.trim()
+
+		const testDir = await fs.mkdtemp(tmpDir)
+		const filePath = path.join(testDir, `${crypto.randomUUID()}.ts`)
+		await execa('git', ['init', '--quiet'], { cwd: testDir })
+		await fs.writeFile(filePath, sourceCode)
+		await execa('git', ['add', '.'], { cwd: testDir })
+		await execa(
+			'git',
+			[
+				'-c',
+				'user.name=Test',
+				'-c',
+				'user.email=test@example.com',
+				'commit',
+				'--quiet',
+				'-m',
+				'Initial commit'
+			],
+			{ cwd: testDir }
+		)
+		await fs.writeFile(filePath, sourceCode.replace('return 2;', 'return 3;'))
+
+		await runAddFunctionReturnTypes({
+			path: testDir,
+			changed: true,
+			changedLinesOnly: true
+		})
+
+		const updatedSource = await fs.readFile(filePath, 'utf-8')
+		expect(updatedSource).toContain('export function getFirst() {')
+		expect(updatedSource).toContain('export function getSecond(): number {')
+	})
+	it('processes the given files and directories and the files listed in filesFrom', async (): Promise<void> => {
+		const sourceCode = `
+export function getValue() {
+  return 1;
+}
+`.trim()
+
+		const testDir = await fs.mkdtemp(tmpDir)
+		const fileNames = ['given.ts', 'listed.ts', 'skipped.ts', 'dir/nested.ts']
+		await fs.mkdir(path.join(testDir, 'dir'))
+		for (const fileName of fileNames) {
+			await fs.writeFile(path.join(testDir, fileName), sourceCode)
+		}
+		const listPath = path.join(testDir, 'files.txt')
+		await fs.writeFile(
+			listPath,
+			`${path.join(testDir, 'listed.ts')}\0${path.join(testDir, 'missing.ts')}\0`
+		)
+
+		await runAddFunctionReturnTypes({
+			path: [path.join(testDir, 'given.ts'), path.join(testDir, 'dir')],
+			filesFrom: listPath
+		})
+
+		for (const fileName of ['given.ts', 'listed.ts', 'dir/nested.ts']) {
+			expect(
+				await fs.readFile(path.join(testDir, fileName), 'utf-8')
+			).toContain('export function getValue(): number {')
+		}
+		expect(await fs.readFile(path.join(testDir, 'skipped.ts'), 'utf-8')).toBe(
+			sourceCode
+		)
+	})
+	it('rolls back return types that cause compiler errors if verify is true', async (): Promise<void> => {
+		const sourceCode = `
+function createLocal() {
+  class Local {
+    value = 1;
+  }
+  return new Local();
+}
+
+function getNumber() {
+  return 42;
+}
+`.trim()
+
+		const testDir = await fs.mkdtemp(tmpDir)
+		const filePath = path.join(testDir, `${crypto.randomUUID()}.ts`)
+		await fs.writeFile(filePath, sourceCode)
+
+		const logger = createRecordingLogger()
+
+		await runAddFunctionReturnTypes({ path: testDir, verify: true, logger })
+
+		expect(logger.messages).toContainEqual([
+			'warn',
+			`  - ${filePath}:1:1 - createLocal: Local (TS2304: Cannot find name 'Local'.)`
+		])
+
+		const updatedSource = await fs.readFile(filePath, 'utf-8')
+		expect(updatedSource).toContain('function createLocal() {')
+		expect(updatedSource).toContain('function getNumber(): number {')
+	})
+	it('rolls back return types that change the declarations if ensureStableDeclarations is true', async (): Promise<void> => {
+		const sourceCode = `
+export function getOptional(value?: string) {
+  return value;
+}
+
+export function getNumber() {
+  return 42;
+}
+`.trim()
+
+		const testDir = await fs.mkdtemp(tmpDir)
+		const filePath = path.join(testDir, `${crypto.randomUUID()}.ts`)
+		await fs.writeFile(filePath, sourceCode)
+
+		const logger = createRecordingLogger()
+
+		await runAddFunctionReturnTypes({
+			path: testDir,
+			ensureStableDeclarations: true,
+			logger
+		})
+
+		expect(logger.messages).toContainEqual([
+			'warn',
+			`  - ${filePath}:1:1 - getOptional: string (Declaration changed from "export declare function getOptional(value?: string): string | undefined;" to "export declare function getOptional(value?: string): string;")`
+		])
+
+		const updatedSource = await fs.readFile(filePath, 'utf-8')
+		expect(updatedSource).toContain(
+			'export function getOptional(value?: string) {'
+		)
+		expect(updatedSource).toContain('export function getNumber(): number {')
+	})
+	it('undoes the latest run from its journal', async (): Promise<void> => {
+		const sourceCode = `
+export function getValue() {
+  return 1;
+}
+`.trim()
+
+		const testDir = await fs.mkdtemp(tmpDir)
+		const filePath = path.join(testDir, `${crypto.randomUUID()}.ts`)
+		await fs.writeFile(filePath, sourceCode)
+		const cacheLocation = path.join(testDir, '.cache')
+
+		await runAddFunctionReturnTypes({ path: filePath, cacheLocation })
+		expect(await fs.readFile(filePath, 'utf-8')).toContain(
+			'export function getValue(): number {'
+		)
+
+		await undoRun(undefined, cacheLocation)
+		expect(await fs.readFile(filePath, 'utf-8')).toBe(sourceCode)
+	})
+	it('refuses to modify files with changes that are not staged unless allowDirty is true', async (): Promise<void> => {
+		const sourceCode = `
+export function getValue() {
+  return 1;
+}
+`.trim()
+
+		const testDir = await fs.mkdtemp(tmpDir)
+		await execa('git', ['init', '--quiet'], { cwd: testDir })
+		const stagedPath = path.join(testDir, 'staged.ts')
+		const untrackedPath = path.join(testDir, 'untracked.ts')
+		await fs.writeFile(stagedPath, sourceCode)
+		await fs.writeFile(untrackedPath, sourceCode)
+		await execa('git', ['add', 'staged.ts'], { cwd: testDir })
+
+		const logger = createRecordingLogger()
+
+		const result = await runAddFunctionReturnTypes({ path: testDir, logger })
+		expect(result.exitCode).toBe(1)
+		expect(result.files).toEqual([
+			expect.objectContaining({ filePath: untrackedPath, status: 'failed' })
+		])
+
+		expect(logger.messages).toContainEqual(['error', `  - ${untrackedPath}`])
+		expect(logger.messages).not.toContainEqual(['error', `  - ${stagedPath}`])
+
+		expect(await fs.readFile(stagedPath, 'utf-8')).toBe(sourceCode)
+		expect(await fs.readFile(untrackedPath, 'utf-8')).toBe(sourceCode)
+
+		await runAddFunctionReturnTypes({ path: testDir, allowDirty: true })
+
+		for (const filePath of [stagedPath, untrackedPath]) {
+			expect(await fs.readFile(filePath, 'utf-8')).toContain(
+				'export function getValue(): number {'
+			)
+		}
+	})
+	it('modifies files with changes that are not staged if they need no return types or are selected by changed', async (): Promise<void> => {
+		const sourceCode = `
+export function getValue() {
+  return 1;
+}
+`.trim()
+		const typedCode = 'export const value = 1;\n'
+
+		const testDir = await fs.mkdtemp(tmpDir)
+		await execa('git', ['init', '--quiet'], { cwd: testDir })
+		const stagedPath = path.join(testDir, 'staged.ts')
+		const typedPath = path.join(testDir, 'typed.ts')
+		await fs.writeFile(stagedPath, sourceCode)
+		await fs.writeFile(typedPath, typedCode)
+		await execa('git', ['add', 'staged.ts'], { cwd: testDir })
+
+		const result = await runAddFunctionReturnTypes({ path: testDir })
+		expect(result.exitCode).toBe(0)
+		expect(await fs.readFile(stagedPath, 'utf-8')).toContain(
+			'export function getValue(): number {'
+		)
+		expect(await fs.readFile(typedPath, 'utf-8')).toBe(typedCode)
+
+		const changedPath = path.join(testDir, 'changed.ts')
+		await fs.writeFile(changedPath, sourceCode)
+
+		const changedResult = await runAddFunctionReturnTypes({
+			path: testDir,
+			changed: true
+		})
+		expect(changedResult.exitCode).toBe(0)
+		expect(await fs.readFile(changedPath, 'utf-8')).toContain(
+			'export function getValue(): number {'
+		)
+	})
+	it('resolves to the outcome of every file and function', async (): Promise<void> => {
+		const sourceCode = `
+export function getValue() {
+  return 1;
+}
+
+export function getAny(value: any) {
+  return value.result;
+}
+`.trim()
+
+		const testDir = await fs.mkdtemp(tmpDir)
+		const filePath = path.join(testDir, `${crypto.randomUUID()}.ts`)
+		const typedPath = path.join(testDir, 'typed.ts')
+		await fs.writeFile(filePath, sourceCode)
+		await fs.writeFile(typedPath, 'export const value = 1;\n')
+
+		const result = await runAddFunctionReturnTypes({
+			path: testDir,
+			ignoreAny: true
+		})
+
+		expect(result.exitCode).toBe(0)
+		expect(result.errors).toEqual([])
+		expect(result.runId).toEqual(expect.any(String))
+		expect(result.durationMs).toBeGreaterThan(0)
+		expect(result.files).toEqual(
+			expect.arrayContaining([
+				{
+					filePath,
+					status: 'modified',
+					annotations: [
+						{
+							filePath,
+							line: 1,
+							column: 1,
+							name: 'getValue',
+							returnType: 'number'
+						}
+					],
+					skippedFunctions: [
+						{
+							filePath,
+							line: 5,
+							column: 1,
+							name: 'getAny',
+							returnType: undefined,
+							reason: 'Ignored by the ignoreAny option'
+						}
+					],
+					error: undefined,
+					durationMs: expect.any(Number)
+				},
+				expect.objectContaining({ filePath: typedPath, status: 'unchanged' })
+			])
+		)
+	})
+	it('logs to the given logger, listing files without changes as debug messages', async (): Promise<void> => {
+		const testDir = await fs.mkdtemp(tmpDir)
+		const filePath = path.join(testDir, `${crypto.randomUUID()}.ts`)
+		const typedPath = path.join(testDir, 'typed.ts')
+		await fs.writeFile(
+			filePath,
+			'export function getAny(value: any) {\n  return value.result;\n}\n'
+		)
+		await fs.writeFile(typedPath, 'export const value = 1;\n')
+
+		const logger = createRecordingLogger()
+
+		// Files processed in worker threads are reported to the logger too
+		await runAddFunctionReturnTypes({
+			path: testDir,
+			concurrency: 2,
+			ignoreAny: true,
+			logger
+		})
+
+		expect(logger.messages).toContainEqual([
+			'debug',
+			expect.stringContaining(`No changes made to "${typedPath}"`)
+		])
+		expect(logger.messages).toContainEqual([
+			'debug',
+			expect.stringContaining(`No changes made to "${filePath}"`)
+		])
+		expect(logger.messages).toContainEqual([
+			'info',
+			expect.stringMatching(/^Processing complete after/)
+		])
+	})
+
+	it('rejects stdin combined with options that process files', async (): Promise<void> => {
+		const testDir = await fs.mkdtemp(tmpDir)
+
+		await expect(
+			runAddFunctionReturnTypes({
+				path: testDir,
+				stdin: true,
+				stdinFilepath: path.join(testDir, 'stdin.ts'),
+				watch: true,
+				outputPatch: path.join(testDir, 'changes.patch'),
+				changed: true,
+				changedLinesOnly: true
+			})
+		).rejects.toThrow(
+			'The stdin option cannot be combined with these options: path, watch, outputPatch, changed, changedLinesOnly'
+		)
+	})
+
+	it('keeps annotating saved files in watch mode until the signal is aborted', async (): Promise<void> => {
+		const testDir = await fs.mkdtemp(tmpDir)
+		const filePath = path.join(testDir, `${crypto.randomUUID()}.ts`)
+		await fs.writeFile(filePath, 'export const a = () => 1\n')
+
+		const logger = createRecordingLogger()
+		const controller = new AbortController()
+		const running = runAddFunctionReturnTypes({
+			path: testDir,
+			watch: true,
+			signal: controller.signal,
+			logger
+		})
+
+		while (
+			!logger.messages.some(([, message]): boolean =>
+				message.startsWith('Watching')
+			)
+		) {
+			await wait(10)
+		}
+		await fs.writeFile(filePath, "export const b = () => 'b'\n")
+		await wait(watchDebounceMs * 10)
+		controller.abort()
+
+		expect((await running).exitCode).toBe(0)
+		expect(await fs.readFile(filePath, 'utf-8')).toBe(
+			"export const b = (): string => 'b'\n"
+		)
+	})
 })
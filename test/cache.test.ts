@@ -0,0 +1,121 @@
+import crypto from 'node:crypto'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { describe, expect, it } from 'vitest'
+import {
+	type Cache,
+	createFileHasher,
+	hashFileOptions,
+	hashText,
+	isUnchanged,
+	loadCache,
+	saveCache,
+	updateCacheEntry
+} from '../src/cache'
+import { defaultOptions } from '../src/options'
+
+describe.concurrent('cache', (): void => {
+	// Use RUNNER_TEMP if available to avoid access errors in GHA
+	const tmpDir = process.env.RUNNER_TEMP || os.tmpdir()
+
+	describe('hashFileOptions', (): void => {
+		it('should ignore options that only affect the run', (): void => {
+			expect(hashFileOptions({ ...defaultOptions, dryRun: true })).toBe(
+				hashFileOptions(defaultOptions)
+			)
+			expect(hashFileOptions({ ...defaultOptions, ignoreAny: true })).not.toBe(
+				hashFileOptions(defaultOptions)
+			)
+		})
+	})
+
+	describe('loadCache', (): void => {
+		it('should discard a cache with a different key', async (): Promise<void> => {
+			const cacheLocation = await fs.mkdtemp(tmpDir)
+			await saveCache(cacheLocation, {
+				key: 'old',
+				files: new Map([
+					['a.ts', { hash: 'hash', optionsHash: 'options', dependencies: {} }]
+				])
+			})
+
+			expect(await loadCache(cacheLocation, 'old')).toEqual({
+				key: 'old',
+				files: new Map([
+					['a.ts', { hash: 'hash', optionsHash: 'options', dependencies: {} }]
+				])
+			})
+			expect(await loadCache(cacheLocation, 'new')).toEqual({
+				key: 'new',
+				files: new Map()
+			})
+		})
+
+		it('should start over when the cache is corrupt', async (): Promise<void> => {
+			const cacheLocation = await fs.mkdtemp(tmpDir)
+			await fs.writeFile(path.join(cacheLocation, 'cache.json'), '{')
+
+			expect(await loadCache(cacheLocation, 'key')).toEqual({
+				key: 'key',
+				files: new Map()
+			})
+		})
+	})
+
+	describe('isUnchanged', (): void => {
+		it('should detect changes to the file, its options and its dependencies', async (): Promise<void> => {
+			const testDir = await fs.mkdtemp(tmpDir)
+			const filePath = path.join(testDir, `${crypto.randomUUID()}.ts`)
+			const dependencyPath = path.join(testDir, `${crypto.randomUUID()}.ts`)
+			await fs.writeFile(filePath, 'export const a = 1')
+			await fs.writeFile(dependencyPath, 'export const b = 2')
+
+			const cache: Cache = { key: 'key', files: new Map() }
+			await updateCacheEntry(cache, filePath, {
+				text: 'export const a = 1',
+				needsChanges: false,
+				optionsHash: 'options',
+				dependencies: [dependencyPath],
+				hashFile: createFileHasher()
+			})
+
+			expect(
+				await isUnchanged(cache, filePath, 'options', createFileHasher())
+			).toBe(true)
+			expect(
+				await isUnchanged(cache, filePath, 'other', createFileHasher())
+			).toBe(false)
+
+			await fs.writeFile(dependencyPath, 'export const b = 3')
+			expect(
+				await isUnchanged(cache, filePath, 'options', createFileHasher())
+			).toBe(false)
+		})
+
+		it('should not cache files that need changes', async (): Promise<void> => {
+			const cache: Cache = {
+				key: 'key',
+				files: new Map([
+					[
+						'a.ts',
+						{
+							hash: hashText('const a = () => 1'),
+							optionsHash: 'options',
+							dependencies: {}
+						}
+					]
+				])
+			}
+			await updateCacheEntry(cache, 'a.ts', {
+				text: 'const a = () => 1',
+				needsChanges: true,
+				optionsHash: 'options',
+				dependencies: [],
+				hashFile: createFileHasher()
+			})
+
+			expect(cache.files).toEqual(new Map())
+		})
+	})
+})
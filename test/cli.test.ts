@@ -1,16 +1,33 @@
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
-import { addFunctionReturnTypes } from '../src/add-function-return-types'
+import {
+	addFunctionReturnTypes,
+	type RunResult
+} from '../src/add-function-return-types'
 import { main } from '../src/cli'
+import { type UndoResult, undoRun } from '../src/journal'
 import type { Options } from '../src/options'
 
 vi.mock(
 	'../src/add-function-return-types.ts',
-	(): { addFunctionReturnTypes: Mock<Procedure>; } => ({
-		addFunctionReturnTypes: vi.fn()
+	(): { addFunctionReturnTypes: Mock<Procedure> } => ({
+		addFunctionReturnTypes: vi.fn(
+			async (): Promise<Pick<RunResult, 'exitCode'>> => ({ exitCode: 0 })
+		)
 	})
 )
+vi.mock('../src/journal.ts', (): { undoRun: Mock<Procedure> } => ({
+	undoRun: vi.fn(
+		async (): Promise<Pick<UndoResult, 'exitCode'>> => ({ exitCode: 0 })
+	)
+}))
 
 describe.concurrent('cli', (): void => {
+	// Use RUNNER_TEMP if available to avoid access errors in GHA
+	const tmpDir = process.env.RUNNER_TEMP || os.tmpdir()
+
 	// Preserve the original process.argv to restore after tests
 	const originalArgv = process.argv
 
@@ -28,31 +45,13 @@ describe.concurrent('cli', (): void => {
 		vi.resetAllMocks()
 	})
 
-	it('should pass default options when no arguments are provided', async (): Promise<void> => {
+	it('should leave options to the config file and defaults when no arguments are provided', async (): Promise<void> => {
 		// Call the main function
 		await main()
 
-		const options: Options = {
-			path: '.',
-			shallow: false,
-			ignoreFiles: [],
-			overwrite: false,
-			ignoreConciseArrowFunctionExpressionsStartingWithVoid: false,
-			ignoreExpressions: false,
-			ignoreFunctionsWithoutTypeParameters: false,
-			ignoreHigherOrderFunctions: false,
-			ignoreTypedFunctionExpressions: false,
-			ignoreIIFEs: false,
-			ignoreFunctions: [],
-			ignoreAnonymousObjects: false,
-			ignoreAny: false,
-			ignoreUnknown: false,
-			ignoreAnonymousFunctions: false,
-			dryRun: false,
-			tsconfig: undefined
-		}
+		const options: Partial<Options> = {}
 
-		// Assert that addFunctionReturnTypes was called with default options
+		// Assert that addFunctionReturnTypes was called without any options set
 		expect(addFunctionReturnTypes).toHaveBeenCalledWith(options)
 	})
 
@@ -62,8 +61,16 @@ describe.concurrent('cli', (): void => {
 			'node',
 			'cli.js',
 			'src',
+			'bin.ts',
+			'--files-from=-',
+			'--stdin',
+			'--stdin-filepath=src/foo.ts',
 			'--shallow',
 			'--ignore-files=**/*.test.ts,**/node_modules/**',
+			'--since=main',
+			'--staged',
+			'--changed',
+			'--changed-lines-only',
 			'--overwrite',
 			'--ignore-concise-arrow-function-expressions-starting-with-void',
 			'--ignore-expressions',
@@ -76,17 +83,44 @@ describe.concurrent('cli', (): void => {
 			'--ignore-any',
 			'--ignore-unknown',
 			'--ignore-anonymous-functions',
+			'--ignore-accessors',
+			'--exported-only',
+			'--extract-object-types',
+			'--extracted-type-kind=interface',
+			'--max-type-length=500',
+			'--max-union-members=10',
+			'--max-type-depth=4',
+			'--complex-type-policy=extract',
 			'--dry-run',
-			'--tsconfig=tsconfig.app.json'
+			'--allow-dirty',
+			'--check',
+			'--verify',
+			'--ensure-stable-declarations',
+			'--concurrency=4',
+			'--cache',
+			'--cache-location=.cache',
+			'--watch',
+			'--diff',
+			'--output-patch=changes.patch',
+			'--tsconfig=tsconfig.app.json',
+			'--config=add-function-return-types.config.json',
+			'--verbose'
 		]
 
 		// Call the main function
 		await main()
 
-		const options: Options = {
-			path: 'src',
+		const options: Partial<Options> = {
+			path: ['src', 'bin.ts'],
+			filesFrom: '-',
+			stdin: true,
+			stdinFilepath: 'src/foo.ts',
 			shallow: true,
 			ignoreFiles: ['**/*.test.ts', '**/node_modules/**'],
+			since: 'main',
+			staged: true,
+			changed: true,
+			changedLinesOnly: true,
 			overwrite: true,
 			ignoreConciseArrowFunctionExpressionsStartingWithVoid: true,
 			ignoreExpressions: true,
@@ -99,8 +133,28 @@ describe.concurrent('cli', (): void => {
 			ignoreAny: true,
 			ignoreUnknown: true,
 			ignoreAnonymousFunctions: true,
+			ignoreAccessors: true,
+			exportedOnly: true,
+			extractObjectTypes: true,
+			extractedTypeKind: 'interface',
+			maxTypeLength: 500,
+			maxUnionMembers: 10,
+			maxTypeDepth: 4,
+			complexTypePolicy: 'extract',
 			dryRun: true,
-			tsconfig: 'tsconfig.app.json'
+			allowDirty: true,
+			check: true,
+			verify: true,
+			ensureStableDeclarations: true,
+			concurrency: 4,
+			cache: true,
+			cacheLocation: '.cache',
+			watch: true,
+			diff: true,
+			outputPatch: 'changes.patch',
+			tsconfig: 'tsconfig.app.json',
+			config: 'add-function-return-types.config.json',
+			logger: expect.objectContaining({ debug: expect.any(Function) })
 		}
 
 		// Assert that addFunctionReturnTypes was called with the expected options
@@ -114,27 +168,103 @@ describe.concurrent('cli', (): void => {
 		// Call the main function
 		await main()
 
-		const options: Options = {
-			path: '.',
-			shallow: false,
-			ignoreFiles: ['**/*.spec.ts'],
-			overwrite: false,
-			ignoreConciseArrowFunctionExpressionsStartingWithVoid: false,
-			ignoreExpressions: false,
-			ignoreFunctionsWithoutTypeParameters: false,
-			ignoreHigherOrderFunctions: false,
-			ignoreTypedFunctionExpressions: false,
-			ignoreIIFEs: false,
-			ignoreFunctions: [],
-			ignoreAnonymousObjects: false,
-			ignoreAny: false,
-			ignoreUnknown: false,
-			ignoreAnonymousFunctions: false,
-			dryRun: false,
-			tsconfig: undefined
+		const options: Partial<Options> = {
+			ignoreFiles: ['**/*.spec.ts']
 		}
 
 		// Assert that addFunctionReturnTypes was called with the expected options
 		expect(addFunctionReturnTypes).toHaveBeenCalledWith(options)
 	})
+
+	it('should turn off boolean options of the config file with their negations', async (): Promise<void> => {
+		process.argv = [
+			'node',
+			'cli.js',
+			'--no-cache',
+			'--no-ignore-iifes',
+			'--exported-only'
+		]
+
+		await main()
+
+		const options: Partial<Options> = {
+			cache: false,
+			ignoreIIFEs: false,
+			exportedOnly: true
+		}
+
+		expect(addFunctionReturnTypes).toHaveBeenCalledWith(options)
+	})
+
+	it('should report invalid options without a stack trace', async (): Promise<void> => {
+		const testDir = await fs.mkdtemp(tmpDir)
+		const exit = vi.spyOn(process, 'exit').mockImplementation((): never => {
+			throw new Error('process.exit')
+		})
+		const writeErr = vi
+			.spyOn(process.stderr, 'write')
+			.mockImplementation((): boolean => true)
+		try {
+			const configPath = path.join(
+				testDir,
+				'add-function-return-types.config.json'
+			)
+			await fs.writeFile(configPath, JSON.stringify({ stdin: true }))
+			process.argv = ['node', 'cli.js', 'undo', `--config=${configPath}`]
+
+			await expect(main()).rejects.toThrow('process.exit')
+
+			expect(writeErr).toHaveBeenCalledWith(
+				`error: Invalid config file "${configPath}": "stdin" cannot be set in a config file\n`
+			)
+			expect(exit).toHaveBeenCalledWith(1)
+		} finally {
+			exit.mockRestore()
+			writeErr.mockRestore()
+			await fs.rm(testDir, { recursive: true, force: true })
+		}
+	})
+
+	it('should undo a run with the undo command', async (): Promise<void> => {
+		process.argv = [
+			'node',
+			'cli.js',
+			'undo',
+			'2026-10-19T17-30-00-123Z-1a2b3c4d',
+			'--cache-location=.cache'
+		]
+
+		await main()
+
+		expect(undoRun).toHaveBeenCalledWith(
+			'2026-10-19T17-30-00-123Z-1a2b3c4d',
+			'.cache',
+			expect.objectContaining({ info: expect.any(Function) })
+		)
+	})
+
+	it('should undo a run with the cache location of the config file', async (): Promise<void> => {
+		const testDir = await fs.mkdtemp(tmpDir)
+		try {
+			const configPath = path.join(
+				testDir,
+				'add-function-return-types.config.json'
+			)
+			await fs.writeFile(
+				configPath,
+				JSON.stringify({ cacheLocation: '.cache' })
+			)
+			process.argv = ['node', 'cli.js', 'undo', `--config=${configPath}`]
+
+			await main()
+
+			expect(undoRun).toHaveBeenCalledWith(
+				undefined,
+				path.join(testDir, '.cache'),
+				expect.objectContaining({ info: expect.any(Function) })
+			)
+		} finally {
+			await fs.rm(testDir, { recursive: true, force: true })
+		}
+	})
 })
@@ -0,0 +1,300 @@
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { describe, expect, it, vi } from 'vitest'
+import {
+	findConfigFile,
+	getFileOptions,
+	loadConfigFile,
+	resolveOptions,
+	resolveOverrides
+} from '../src/config'
+import { defaultOptions } from '../src/options'
+
+describe.concurrent('config', (): void => {
+	// Use RUNNER_TEMP if available to avoid access errors in GHA
+	const tmpDir = process.env.RUNNER_TEMP || os.tmpdir()
+
+	describe('findConfigFile', (): void => {
+		it('should find a config file in a parent directory up to the repository root', async (): Promise<void> => {
+			const testDir = await fs.mkdtemp(tmpDir)
+			try {
+				await fs.mkdir(path.join(testDir, '.git'))
+				await fs.mkdir(path.join(testDir, 'packages', 'a'), { recursive: true })
+				const configPath = path.join(
+					testDir,
+					'add-function-return-types.config.json'
+				)
+				await fs.writeFile(configPath, '{}')
+
+				const result = await findConfigFile(path.join(testDir, 'packages', 'a'))
+				expect(result).toBe(configPath)
+			} finally {
+				await fs.rm(testDir, { recursive: true, force: true })
+			}
+		})
+
+		it('should only use package.json files with an addFunctionReturnTypes key', async (): Promise<void> => {
+			const testDir = await fs.mkdtemp(tmpDir)
+			try {
+				await fs.mkdir(path.join(testDir, '.git'))
+				await fs.mkdir(path.join(testDir, 'packages', 'a'), { recursive: true })
+				await fs.writeFile(
+					path.join(testDir, 'packages', 'a', 'package.json'),
+					JSON.stringify({ name: 'a' })
+				)
+				await fs.writeFile(
+					path.join(testDir, 'package.json'),
+					JSON.stringify({ addFunctionReturnTypes: { ignoreAny: true } })
+				)
+
+				const result = await findConfigFile(path.join(testDir, 'packages', 'a'))
+				expect(result).toBe(path.join(testDir, 'package.json'))
+			} finally {
+				await fs.rm(testDir, { recursive: true, force: true })
+			}
+		})
+
+		it('should return undefined when there is no config file', async (): Promise<void> => {
+			const testDir = await fs.mkdtemp(tmpDir)
+			try {
+				const result = await findConfigFile(testDir)
+				expect(result).toBeUndefined()
+			} finally {
+				await fs.rm(testDir, { recursive: true, force: true })
+			}
+		})
+	})
+
+	describe('loadConfigFile', (): void => {
+		it('should load a TypeScript config file and resolve relative paths', async (): Promise<void> => {
+			const testDir = await fs.mkdtemp(tmpDir)
+			try {
+				const configPath = path.join(
+					testDir,
+					'add-function-return-types.config.ts'
+				)
+				await fs.writeFile(
+					configPath,
+					`
+const ignoreFunctions: string[] = ['map']
+
+export default {
+	ignoreFunctions,
+	tsconfig: 'tsconfig.app.json',
+	overrides: [{ files: ['test/**'], ignoreIIFEs: true }]
+}
+`.trim()
+				)
+
+				const config = await loadConfigFile(configPath)
+				expect(config).toEqual({
+					ignoreFunctions: ['map'],
+					tsconfig: path.join(testDir, 'tsconfig.app.json'),
+					overrides: [
+						{ files: ['test/**'], ignoreIIFEs: true, basePath: testDir }
+					]
+				})
+
+				// The module is transpiled in memory
+				expect(await fs.readdir(testDir)).toEqual([
+					'add-function-return-types.config.ts'
+				])
+			} finally {
+				await fs.rm(testDir, { recursive: true, force: true })
+			}
+		})
+
+		it('should load a TypeScript config file of an ES module package with its imports', async (): Promise<void> => {
+			const testDir = await fs.mkdtemp(tmpDir)
+			try {
+				await fs.writeFile(
+					path.join(testDir, 'package.json'),
+					JSON.stringify({ type: 'module' })
+				)
+				await fs.writeFile(
+					path.join(testDir, 'shared.ts'),
+					"export const ignoreFunctions: string[] = ['map']"
+				)
+				const configPath = path.join(
+					testDir,
+					'add-function-return-types.config.ts'
+				)
+				await fs.writeFile(
+					configPath,
+					`
+import { ignoreFunctions } from './shared.js'
+
+export default { ignoreFunctions, ignoreIIFEs: true }
+`.trim()
+				)
+
+				const config = await loadConfigFile(configPath)
+				expect(config).toEqual({
+					ignoreFunctions: ['map'],
+					ignoreIIFEs: true
+				})
+			} finally {
+				await fs.rm(testDir, { recursive: true, force: true })
+			}
+		})
+
+		it('should resolve ignored files and output paths against the directory of the config file', async (): Promise<void> => {
+			const testDir = await fs.mkdtemp(tmpDir)
+			try {
+				const configPath = path.join(
+					testDir,
+					'add-function-return-types.config.json'
+				)
+				await fs.writeFile(
+					configPath,
+					JSON.stringify({
+						ignoreFiles: ['src/generated/**', '**/*.test.ts', '/abs/**'],
+						cacheLocation: '.cache',
+						outputPatch: 'changes.patch'
+					})
+				)
+
+				const config = await loadConfigFile(configPath)
+				expect(config).toEqual({
+					ignoreFiles: [
+						`${testDir}/src/generated/**`,
+						`${testDir}/**/*.test.ts`,
+						'/abs/**'
+					],
+					cacheLocation: path.join(testDir, '.cache'),
+					outputPatch: path.join(testDir, 'changes.patch')
+				})
+			} finally {
+				await fs.rm(testDir, { recursive: true, force: true })
+			}
+		})
+
+		it('should reject options that cannot be set in a config file', async (): Promise<void> => {
+			const testDir = await fs.mkdtemp(tmpDir)
+			try {
+				const configPath = path.join(
+					testDir,
+					'add-function-return-types.config.json'
+				)
+				await fs.writeFile(
+					configPath,
+					JSON.stringify({
+						stdin: true,
+						stdinFilepath: 'a.ts',
+						ignoreAny: true
+					})
+				)
+
+				await expect(loadConfigFile(configPath)).rejects.toThrow(
+					'"stdin", "stdinFilepath" cannot be set in a config file'
+				)
+			} finally {
+				await fs.rm(testDir, { recursive: true, force: true })
+			}
+		})
+
+		it('should reject a config file that is not an object', async (): Promise<void> => {
+			const testDir = await fs.mkdtemp(tmpDir)
+			try {
+				const configPath = path.join(
+					testDir,
+					'add-function-return-types.config.json'
+				)
+				await fs.writeFile(configPath, '[]')
+
+				await expect(loadConfigFile(configPath)).rejects.toThrow(
+					'expected an object of options'
+				)
+			} finally {
+				await fs.rm(testDir, { recursive: true, force: true })
+			}
+		})
+	})
+
+	describe('resolveOptions', (): void => {
+		it('should merge defaults, the config file and the given options', async (): Promise<void> => {
+			const testDir = await fs.mkdtemp(tmpDir)
+			try {
+				const configPath = path.join(
+					testDir,
+					'add-function-return-types.config.json'
+				)
+				await fs.writeFile(
+					configPath,
+					JSON.stringify({ ignoreAny: true, ignoreUnknown: true })
+				)
+
+				const options = await resolveOptions({
+					path: testDir,
+					ignoreUnknown: false,
+					overwrite: undefined
+				})
+
+				expect(options).toEqual({
+					...defaultOptions,
+					path: testDir,
+					ignoreAny: true,
+					ignoreUnknown: false,
+					config: configPath
+				})
+			} finally {
+				await fs.rm(testDir, { recursive: true, force: true })
+			}
+		})
+
+		it('should log to stderr by default with stdin', async (): Promise<void> => {
+			const testDir = await fs.mkdtemp(tmpDir)
+			const errorSpy = vi
+				.spyOn(console, 'error')
+				.mockImplementation((): void => {})
+			try {
+				const options = await resolveOptions({
+					stdin: true,
+					stdinFilepath: path.join(testDir, 'stdin.ts')
+				})
+				options.logger.info('stdin info message')
+
+				expect(errorSpy).toHaveBeenCalledWith('stdin info message')
+			} finally {
+				errorSpy.mockRestore()
+				await fs.rm(testDir, { recursive: true, force: true })
+			}
+		})
+	})
+
+	describe('getFileOptions', (): void => {
+		it('should apply matching overrides in order', async (): Promise<void> => {
+			const testDir = await fs.mkdtemp(tmpDir)
+			try {
+				await fs.mkdir(path.join(testDir, 'test'))
+				const testFile = path.join(testDir, 'test', 'a.test.ts')
+				const excludedFile = path.join(testDir, 'test', 'b.test.ts')
+				await fs.writeFile(testFile, '')
+				await fs.writeFile(excludedFile, '')
+
+				const overrides = await resolveOverrides([
+					{
+						files: ['test/**'],
+						excludedFiles: ['**/b.test.ts'],
+						basePath: testDir,
+						ignoreIIFEs: true,
+						ignoreAny: true
+					},
+					{ files: ['**/*.test.ts'], basePath: testDir, ignoreAny: false }
+				])
+
+				expect(getFileOptions(defaultOptions, overrides, testFile)).toEqual({
+					...defaultOptions,
+					ignoreIIFEs: true,
+					ignoreAny: false
+				})
+				expect(getFileOptions(defaultOptions, overrides, excludedFile)).toEqual(
+					defaultOptions
+				)
+			} finally {
+				await fs.rm(testDir, { recursive: true, force: true })
+			}
+		})
+	})
+})
@@ -0,0 +1,58 @@
+import { Project, type SourceFile } from 'ts-morph'
+import { describe, expect, it } from 'vitest'
+import {
+	findChangedDeclarations,
+	getDeclarationOutput
+} from '../src/declarations'
+
+describe.concurrent('declarations', (): void => {
+	const createSourceFile = (text: string): SourceFile =>
+		new Project({
+			useInMemoryFileSystem: true,
+			compilerOptions: { declaration: true, strict: true }
+		}).createSourceFile('file.ts', text)
+
+	it('should emit the declarations of a file in memory', (): void => {
+		const sourceFile = createSourceFile(
+			'export function getValue() {\n  return 1\n}\n'
+		)
+
+		expect(getDeclarationOutput(sourceFile)).toBe(
+			'export declare function getValue(): number;\n'
+		)
+	})
+
+	it('should attribute a changed declaration to the function it belongs to', (): void => {
+		const sourceFile = createSourceFile(
+			"export class Service {\n  load() {\n    return 'a' as const\n  }\n}\nexport const get = () => 1\n"
+		)
+		const originalOutput = getDeclarationOutput(sourceFile)
+
+		sourceFile.replaceWithText(
+			"export class Service {\n  load(): string {\n    return 'a' as const\n  }\n}\nexport const get = (): number => 1\n"
+		)
+
+		expect(
+			findChangedDeclarations(sourceFile, new Set([0, 1]), originalOutput)
+		).toEqual(
+			new Map([
+				[0, ['Declaration changed from "load(): "a";" to "load(): string;"']]
+			])
+		)
+	})
+
+	it('should not report declarations that did not change', (): void => {
+		const sourceFile = createSourceFile(
+			'export function getValue() {\n  return 1\n}\n'
+		)
+		const originalOutput = getDeclarationOutput(sourceFile)
+
+		sourceFile.replaceWithText(
+			'export function getValue(): number {\n  return 1\n}\n'
+		)
+
+		expect(
+			findChangedDeclarations(sourceFile, new Set([0]), originalOutput)
+		).toEqual(new Map())
+	})
+})
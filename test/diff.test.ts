@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import { colorizePatch, createFilePatch, getTextChanges } from '../src/diff'
+
+describe.concurrent('diff', (): void => {
+	describe('createFilePatch', (): void => {
+		it('should create a git-style patch relative to the root path', (): void => {
+			const patch = createFilePatch(
+				'/repo/src/greet.ts',
+				'/repo',
+				'function greet() {\n  return 1\n}\n',
+				'function greet(): number {\n  return 1\n}\n'
+			)
+
+			expect(patch).toBe(
+				[
+					'diff --git a/src/greet.ts b/src/greet.ts',
+					'--- a/src/greet.ts',
+					'+++ b/src/greet.ts',
+					'@@ -1,3 +1,3 @@',
+					'-function greet() {',
+					'+function greet(): number {',
+					'   return 1',
+					' }',
+					''
+				].join('\n')
+			)
+		})
+
+		it('should return an empty string when nothing changed', (): void => {
+			expect(createFilePatch('/repo/a.ts', '/repo', 'a\n', 'a\n')).toBe('')
+		})
+	})
+
+	describe('colorizePatch', (): void => {
+		it('should color added, removed and hunk lines', (): void => {
+			const colored = colorizePatch('@@ -1 +1 @@\n-a\n+b\n c')
+
+			expect(colored).toBe(
+				'\x1b[36m@@ -1 +1 @@\x1b[0m\n\x1b[31m-a\x1b[0m\n\x1b[32m+b\x1b[0m\n c'
+			)
+		})
+	})
+
+	describe('getTextChanges', (): void => {
+		it('should get the insertions and replacements relative to the original text', (): void => {
+			const originalText =
+				"import { a } from './a'\n\nfunction greet() {\n  return a\n}\n"
+			const updatedText =
+				"import { a, type A } from './a'\n\nfunction greet(): A {\n  return a\n}\n"
+
+			const changes = getTextChanges(originalText, updatedText)
+
+			expect(changes).toEqual([
+				{ span: { start: 10, length: 0 }, newText: ', type A' },
+				{ span: { start: 41, length: 0 }, newText: ': A' }
+			])
+		})
+
+		it('should merge a removal and the addition after it into one replacement', (): void => {
+			expect(
+				getTextChanges('function get(): any {}', 'function get(): string {}')
+			).toEqual([{ span: { start: 16, length: 3 }, newText: 'string' }])
+		})
+	})
+})
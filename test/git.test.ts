@@ -0,0 +1,158 @@
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { execa } from 'execa'
+import { describe, expect, it } from 'vitest'
+import {
+	getChangedLines,
+	getGitFiles,
+	getUnstagedFiles,
+	hasGitSelection
+} from '../src/git'
+
+describe.concurrent('git', (): void => {
+	// Use RUNNER_TEMP if available to avoid access errors in GHA
+	const tmpDir = process.env.RUNNER_TEMP || os.tmpdir()
+
+	// Creates a repository with a commit on main and a branch that changes, stages and adds files
+	const createRepository = async (): Promise<string> => {
+		const testDir = await fs.mkdtemp(tmpDir)
+		const git = (...args: string[]): Promise<unknown> =>
+			execa(
+				'git',
+				['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args],
+				{ cwd: testDir }
+			)
+
+		await git('init', '--quiet', '--initial-branch=main')
+		for (const name of ['committed', 'staged', 'modified', 'deleted']) {
+			await fs.writeFile(path.join(testDir, `${name}.ts`), 'export {}\n')
+		}
+		await git('add', '.')
+		await git('commit', '--quiet', '-m', 'Initial commit')
+
+		await git('checkout', '--quiet', '-b', 'feature')
+		await fs.writeFile(path.join(testDir, 'committed.ts'), 'export {}\n\n')
+		await git('commit', '--quiet', '-am', 'Change committed.ts')
+
+		await fs.writeFile(path.join(testDir, 'staged.ts'), 'export {}\n\n')
+		await git('add', 'staged.ts')
+		await fs.writeFile(path.join(testDir, 'modified.ts'), 'export {}\n\n')
+		await fs.rm(path.join(testDir, 'deleted.ts'))
+		await fs.writeFile(path.join(testDir, 'untracked.ts'), 'export {}\n')
+
+		return testDir
+	}
+
+	const getFileNames = (files: Set<string>): string[] =>
+		[...files].map((file): string => path.basename(file)).toSorted()
+
+	it('should list the files changed since a ref, staged or changed', async (): Promise<void> => {
+		const testDir = await createRepository()
+
+		expect(
+			getFileNames(
+				await getGitFiles(testDir, {
+					since: 'main',
+					staged: false,
+					changed: false
+				})
+			)
+		).toEqual(['committed.ts', 'modified.ts', 'staged.ts'])
+		expect(
+			getFileNames(
+				await getGitFiles(testDir, {
+					since: undefined,
+					staged: true,
+					changed: false
+				})
+			)
+		).toEqual(['staged.ts'])
+		expect(
+			getFileNames(
+				await getGitFiles(testDir, {
+					since: undefined,
+					staged: false,
+					changed: true
+				})
+			)
+		).toEqual(['modified.ts', 'untracked.ts'])
+	})
+
+	it('should fail with the git error for unknown refs', async (): Promise<void> => {
+		const testDir = await createRepository()
+
+		await expect(
+			getGitFiles(testDir, { since: 'unknown', staged: false, changed: false })
+		).rejects.toThrow('Failed to run "git diff')
+	})
+
+	it('should only select files when a git option is given', (): void => {
+		expect(
+			hasGitSelection({ since: undefined, staged: false, changed: false })
+		).toBe(false)
+		expect(
+			hasGitSelection({ since: 'main', staged: false, changed: false })
+		).toBe(true)
+	})
+	it('should list the changed lines of each file', async (): Promise<void> => {
+		const testDir = await fs.mkdtemp(tmpDir)
+		const filePath = path.join(testDir, 'file.ts')
+		await execa('git', ['init', '--quiet'], { cwd: testDir })
+		await fs.writeFile(filePath, 'a\nb\nc\nd\ne\n')
+		await execa('git', ['add', '.'], { cwd: testDir })
+		await execa(
+			'git',
+			[
+				'-c',
+				'user.name=Test',
+				'-c',
+				'user.email=test@example.com',
+				'commit',
+				'--quiet',
+				'-m',
+				'Initial commit'
+			],
+			{ cwd: testDir }
+		)
+
+		// Change b, delete d and add f
+		await fs.writeFile(filePath, 'a\nB\nc\ne\nf\n')
+		await fs.writeFile(path.join(testDir, 'untracked.ts'), 'export {}\n')
+
+		const changedLines = await getChangedLines(testDir, {
+			since: undefined,
+			staged: false,
+			changed: true
+		})
+
+		expect(changedLines).toEqual(
+			new Map([
+				[
+					filePath,
+					[
+						{ start: 2, end: 2 },
+						{ start: 4, end: 3 },
+						{ start: 5, end: 5 }
+					]
+				],
+				[
+					path.join(testDir, 'untracked.ts'),
+					[{ start: 1, end: Number.POSITIVE_INFINITY }]
+				]
+			])
+		)
+	})
+
+	it('should list the files with changes that are not staged', async (): Promise<void> => {
+		const testDir = await createRepository()
+		const unstagedFiles = await getUnstagedFiles(testDir)
+
+		expect(unstagedFiles && getFileNames(unstagedFiles)).toEqual([
+			'deleted.ts',
+			'modified.ts',
+			'untracked.ts'
+		])
+		expect(await getUnstagedFiles(await fs.mkdtemp(tmpDir))).toBeUndefined()
+	})
+})
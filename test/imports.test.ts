@@ -0,0 +1,270 @@
+import { Project, ts } from 'ts-morph'
+import { describe, expect, it } from 'vitest'
+import {
+	addNamedTypeImport,
+	addTypeImports,
+	getModuleSpecifier,
+	type PendingImports,
+	rewriteImportTypes
+} from '../src/imports'
+
+describe.concurrent('imports', (): void => {
+	const createProject = (compilerOptions: ts.CompilerOptions = {}): Project =>
+		new Project({ useInMemoryFileSystem: true, compilerOptions })
+
+	describe('getModuleSpecifier', (): void => {
+		it('should follow the extension style of existing relative imports', (): void => {
+			const project = createProject({
+				moduleResolution: ts.ModuleResolutionKind.NodeNext
+			})
+			const sourceFile = project.createSourceFile(
+				'/src/services/user.ts',
+				"import { db } from '../db'"
+			)
+
+			expect(getModuleSpecifier(sourceFile, '/src/models/index.ts')).toBe(
+				'../models'
+			)
+		})
+
+		it('should use .js extensions for node16 module resolution', (): void => {
+			const project = createProject({
+				moduleResolution: ts.ModuleResolutionKind.NodeNext
+			})
+			const sourceFile = project.createSourceFile('/src/service.ts', '')
+
+			expect(getModuleSpecifier(sourceFile, '/src/models/user.tsx')).toBe(
+				'./models/user.js'
+			)
+			expect(getModuleSpecifier(sourceFile, '/src/models/user.d.mts')).toBe(
+				'./models/user.mjs'
+			)
+		})
+
+		it('should use package names for files in node_modules', (): void => {
+			const project = createProject()
+			project.createSourceFile(
+				'/node_modules/@prisma/client/index.d.ts',
+				'export interface User { id: string }\n'
+			)
+			project.createSourceFile(
+				'/node_modules/@types/babel__core/index.d.ts',
+				'export interface TransformOptions { ast?: boolean }\n'
+			)
+			const sourceFile = project.createSourceFile('/src/service.ts', '')
+
+			expect(
+				getModuleSpecifier(
+					sourceFile,
+					'/node_modules/@prisma/client/index.d.ts',
+					'User'
+				)
+			).toBe('@prisma/client')
+			expect(
+				getModuleSpecifier(
+					sourceFile,
+					'/node_modules/@types/babel__core/index.d.ts',
+					'TransformOptions'
+				)
+			).toBe('@babel/core')
+		})
+
+		it('should use an existing import of a module that re-exports the file', (): void => {
+			const project = createProject()
+			project.createSourceFile(
+				'/node_modules/.prisma/client/index.d.ts',
+				'export interface User { id: string }\n'
+			)
+			project.createSourceFile(
+				'/node_modules/@prisma/client/index.d.ts',
+				"export * from '.prisma/client'\n"
+			)
+			const sourceFile = project.createSourceFile(
+				'/src/service.ts',
+				"import { PrismaClient } from '@prisma/client'\n"
+			)
+			const otherSourceFile = project.createSourceFile('/src/other.ts', '')
+
+			expect(
+				getModuleSpecifier(
+					sourceFile,
+					'/node_modules/.prisma/client/index.d.ts',
+					'User'
+				)
+			).toBe('@prisma/client')
+			expect(
+				getModuleSpecifier(
+					otherSourceFile,
+					'/node_modules/.prisma/client/index.d.ts',
+					'User'
+				)
+			).toBeUndefined()
+		})
+
+		it('should only use the subpaths a package exports', (): void => {
+			const project = createProject({
+				moduleResolution: ts.ModuleResolutionKind.Bundler
+			})
+			project.createSourceFile(
+				'/node_modules/lib/dist/sub/thing.d.ts',
+				'export interface Thing { a: number }\n'
+			)
+			project.createSourceFile(
+				'/node_modules/lib/index.d.ts',
+				'export declare const version: string\n'
+			)
+			project.getFileSystem().writeFileSync(
+				'/node_modules/lib/package.json',
+				JSON.stringify({
+					name: 'lib',
+					exports: {
+						'.': { types: './index.d.ts' },
+						'./sub': { types: './dist/sub/thing.d.ts' }
+					}
+				})
+			)
+			project
+				.getFileSystem()
+				.writeFileSync(
+					'/node_modules/other/package.json',
+					JSON.stringify({ name: 'other', types: './index.d.ts' })
+				)
+			project.createSourceFile(
+				'/node_modules/other/dist/thing.d.ts',
+				'export interface Thing { a: number }\n'
+			)
+			project.createSourceFile('/node_modules/other/index.d.ts', '')
+			const sourceFile = project.createSourceFile('/src/service.ts', '')
+
+			expect(
+				getModuleSpecifier(
+					sourceFile,
+					'/node_modules/lib/dist/sub/thing.d.ts',
+					'Thing'
+				)
+			).toBe('lib/sub')
+			expect(
+				getModuleSpecifier(
+					sourceFile,
+					'/node_modules/other/dist/thing.d.ts',
+					'Thing'
+				)
+			).toBeUndefined()
+		})
+	})
+
+	describe('addNamedTypeImport', (): void => {
+		it('should add a type-only import declaration in the style of the existing imports', (): void => {
+			const project = createProject()
+			const sourceFile = project.createSourceFile(
+				'/src/service.ts',
+				"import { db } from './db.js'\n\nexport const users = db.users\n"
+			)
+
+			addNamedTypeImport(sourceFile, 'User', './user.js')
+
+			expect(sourceFile.getFullText()).toBe(
+				"import { db } from './db.js'\nimport type { User } from './user.js'\n\nexport const users = db.users\n"
+			)
+		})
+
+		it('should merge into an existing import with an inline type modifier when verbatimModuleSyntax is enabled', (): void => {
+			const project = createProject({ verbatimModuleSyntax: true })
+			const sourceFile = project.createSourceFile(
+				'/src/service.ts',
+				"import { getUser } from './user.js'\n"
+			)
+
+			expect(addNamedTypeImport(sourceFile, 'User', './user.js')).toBe(true)
+			expect(addNamedTypeImport(sourceFile, 'User', './user.js')).toBe(false)
+
+			expect(sourceFile.getFullText()).toBe(
+				"import { getUser, type User } from './user.js'\n"
+			)
+		})
+	})
+
+	describe('rewriteImportTypes', (): void => {
+		it('should rewrite import types into named type imports', (): void => {
+			const project = createProject()
+			project.createSourceFile(
+				'/src/models/user.ts',
+				'export interface User { id: string }\nexport namespace Users { export interface Page { users: User[] } }\n'
+			)
+			const sourceFile = project.createSourceFile(
+				'/src/service.ts',
+				`
+export function getUsers(): Promise<import("/src/models/user").User[]> { return Promise.resolve([]) }
+export function getPage(): Map<string, import("/src/models/user").Users.Page> { return new Map() }
+`.trimStart()
+			)
+			const pendingImports: PendingImports = new Map()
+
+			for (const func of sourceFile.getFunctions()) {
+				rewriteImportTypes(func.getReturnTypeNodeOrThrow(), pendingImports)
+			}
+			addTypeImports(sourceFile, pendingImports)
+
+			expect(sourceFile.getFullText()).toBe(
+				`
+import type { User, Users } from "./models/user";
+
+export function getUsers(): Promise<User[]> { return Promise.resolve([]) }
+export function getPage(): Map<string, Users.Page> { return new Map() }
+`.trimStart()
+			)
+		})
+
+		it('should only make the module specifier relative when the name is taken', (): void => {
+			const project = createProject()
+			project.createSourceFile(
+				'/src/models/user.ts',
+				'export interface User { id: string }\n'
+			)
+			const sourceFile = project.createSourceFile(
+				'/src/service.ts',
+				`
+interface User { name: string }
+export function getUser(): import("/src/models/user").User { return { id: '1' } }
+`.trimStart()
+			)
+			const pendingImports: PendingImports = new Map()
+
+			rewriteImportTypes(
+				sourceFile.getFunctionOrThrow('getUser').getReturnTypeNodeOrThrow(),
+				pendingImports
+			)
+
+			expect(pendingImports.size).toBe(0)
+			expect(sourceFile.getFullText()).toContain(
+				'export function getUser(): import("./models/user").User {'
+			)
+		})
+
+		it('should keep the import type of a file that no package entry exports', (): void => {
+			const project = createProject()
+			project.createSourceFile(
+				'/node_modules/other/dist/thing.d.ts',
+				'export interface Thing { a: number }\n'
+			)
+			project.createSourceFile('/node_modules/other/index.d.ts', '')
+			const sourceFile = project.createSourceFile(
+				'/src/service.ts',
+				`
+export function getThing(): import("/node_modules/other/dist/thing").Thing { return { a: 1 } }
+`.trimStart()
+			)
+			const pendingImports: PendingImports = new Map()
+
+			rewriteImportTypes(
+				sourceFile.getFunctionOrThrow('getThing').getReturnTypeNodeOrThrow(),
+				pendingImports
+			)
+
+			expect(pendingImports.size).toBe(0)
+			expect(sourceFile.getFullText()).toContain(
+				'export function getThing(): import("../node_modules/other/dist/thing").Thing {'
+			)
+		})
+	})
+})
@@ -1,13 +1,43 @@
+import crypto from 'node:crypto'
+import fs from 'node:fs/promises'
+import os from 'node:os'
 import path from 'node:path'
 import { execa } from 'execa'
-import { describe, it } from 'vitest'
+import { describe, expect, it } from 'vitest'
 
 describe('index', (): void => {
-	it('should work', async (): Promise<void> => {
-		const cliPath = path.resolve(__dirname, '../src/bin.ts')
+	const cliPath = path.resolve(__dirname, '../src/bin.ts')
+	// Use RUNNER_TEMP if available to avoid access errors in GHA
+	const tmpDir = process.env.RUNNER_TEMP || os.tmpdir()
 
+	it('should work', async (): Promise<void> => {
 		await execa('tsx', [cliPath], {
 			preferLocal: true
 		})
 	})
+
+	it('should annotate code from stdin in the project of the stdin filepath', async (): Promise<void> => {
+		const testDir = await fs.mkdtemp(tmpDir)
+		const filePath = path.join(testDir, `${crypto.randomUUID()}.ts`)
+		await fs.writeFile(
+			path.join(testDir, 'id.ts'),
+			'export type Id = { value: number }\nexport function createId(): Id {\n  return { value: 1 }\n}\n'
+		)
+
+		const { stdout } = await execa(
+			'tsx',
+			[cliPath, '--stdin', `--stdin-filepath=${filePath}`],
+			{
+				preferLocal: true,
+				input:
+					"import { createId } from './id.js'\n\nexport function getId() {\n  return createId()\n}\n"
+			}
+		)
+
+		// Only the annotated code is written to stdout, and the file is not created
+		expect(stdout).toContain("from './id.js'")
+		expect(stdout).toContain('export function getId(): Id {')
+		expect(stdout).not.toContain('Starting process')
+		await expect(fs.access(filePath)).rejects.toThrow()
+	})
 })
@@ -0,0 +1,192 @@
+import crypto from 'node:crypto'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { describe, expect, it, vi } from 'vitest'
+import {
+	createJournalFile,
+	createRunId,
+	createRunJournal,
+	pruneJournals,
+	readJournal,
+	undoRun,
+	writeJournal
+} from '../src/journal'
+import { consoleLogger } from '../src/logger'
+
+describe.concurrent('journal', (): void => {
+	// Use RUNNER_TEMP if available to avoid access errors in GHA
+	const tmpDir = process.env.RUNNER_TEMP || os.tmpdir()
+
+	const originalText = 'export function getValue() {\n  return 1\n}\n'
+	const updatedText = 'export function getValue(): number {\n  return 1\n}\n'
+
+	const journalRun = async (
+		testDir: string,
+		filePath: string
+	): Promise<string> => {
+		await fs.writeFile(filePath, updatedText)
+		const runId = createRunId()
+		await writeJournal(testDir, {
+			runId,
+			createdAt: new Date().toISOString(),
+			files: [createJournalFile(filePath, originalText, updatedText, [])]
+		})
+		return runId
+	}
+
+	describe('createRunId', (): void => {
+		it('should sort run ids in the order the runs were started', (): void => {
+			const runIds = [
+				createRunId(new Date('2026-10-19T17:30:00.000Z')),
+				createRunId(new Date('2026-10-19T09:00:00.000Z')),
+				createRunId(new Date('2026-10-20T08:00:00.000Z'))
+			]
+
+			expect(runIds.toSorted()).toEqual([runIds[1], runIds[0], runIds[2]])
+		})
+	})
+
+	describe('readJournal', (): void => {
+		it('should read the latest run when no run id is given', async (): Promise<void> => {
+			const testDir = await fs.mkdtemp(tmpDir)
+			const filePath = path.join(testDir, `${crypto.randomUUID()}.ts`)
+			await journalRun(testDir, filePath)
+			const latestRunId = await journalRun(testDir, filePath)
+
+			expect((await readJournal(testDir))?.runId).toBe(latestRunId)
+			expect(await readJournal(testDir, 'missing')).toBeUndefined()
+		})
+	})
+
+	describe('createRunJournal', (): void => {
+		it('should write the journal as files are added', async (): Promise<void> => {
+			const testDir = await fs.mkdtemp(tmpDir)
+			const filePaths = [
+				path.join(testDir, `${crypto.randomUUID()}.ts`),
+				path.join(testDir, `${crypto.randomUUID()}.ts`)
+			]
+			const journal = createRunJournal(testDir, consoleLogger)
+			for (const filePath of filePaths) {
+				journal.addFile(
+					createJournalFile(filePath, originalText, updatedText, [])
+				)
+			}
+
+			const runId = await journal.close()
+
+			expect(runId).toEqual(expect.any(String))
+			expect(
+				(await readJournal(testDir, runId))?.files.map(
+					(file): string => file.filePath
+				)
+			).toEqual(filePaths)
+		})
+
+		it('should not write a journal without files', async (): Promise<void> => {
+			const testDir = await fs.mkdtemp(tmpDir)
+
+			expect(await createRunJournal(testDir, consoleLogger).close()).toBe(
+				undefined
+			)
+			expect(await readJournal(testDir)).toBeUndefined()
+		})
+	})
+
+	describe('pruneJournals', (): void => {
+		it('should remove all but the latest journals', async (): Promise<void> => {
+			const testDir = await fs.mkdtemp(tmpDir)
+			const runIds = [9, 10, 11].map((hour): string =>
+				createRunId(new Date(Date.UTC(2026, 9, 19, hour)))
+			)
+			for (const runId of runIds) {
+				await writeJournal(testDir, { runId, createdAt: runId, files: [] })
+			}
+
+			expect(await pruneJournals(testDir, 2)).toEqual([runIds[0]])
+			expect(await readJournal(testDir, runIds[0])).toBeUndefined()
+			expect((await readJournal(testDir, runIds[1]))?.runId).toBe(runIds[1])
+			expect((await readJournal(testDir))?.runId).toBe(runIds[2])
+		})
+
+		it('should remove the journals of the earlier format', async (): Promise<void> => {
+			const testDir = await fs.mkdtemp(tmpDir)
+			const runId = createRunId()
+			await writeJournal(testDir, { runId, createdAt: runId, files: [] })
+			const legacyRunId = createRunId(new Date(Date.UTC(2026, 9, 18)))
+			await fs.writeFile(
+				path.join(testDir, 'runs', `${legacyRunId}.json`),
+				JSON.stringify({
+					runId: legacyRunId,
+					createdAt: legacyRunId,
+					files: []
+				})
+			)
+
+			expect(await pruneJournals(testDir, 2)).toEqual([legacyRunId])
+			expect(await fs.readdir(path.join(testDir, 'runs'))).toEqual([
+				`${runId}.jsonl`
+			])
+		})
+	})
+
+	describe('undoRun', (): void => {
+		it('should restore the files and remove the journal', async (): Promise<void> => {
+			const testDir = await fs.mkdtemp(tmpDir)
+			const filePath = path.join(testDir, `${crypto.randomUUID()}.ts`)
+			const runId = await journalRun(testDir, filePath)
+
+			expect(await undoRun(runId, testDir)).toEqual({
+				runId,
+				restoredFiles: [filePath],
+				skippedFiles: [],
+				modifiedFiles: [],
+				exitCode: 0
+			})
+			expect(await fs.readFile(filePath, 'utf-8')).toBe(originalText)
+			expect(await readJournal(testDir, runId)).toBeUndefined()
+		})
+
+		it('should leave files that were modified after the run', async (): Promise<void> => {
+			const testDir = await fs.mkdtemp(tmpDir)
+			const filePath = path.join(testDir, `${crypto.randomUUID()}.ts`)
+			const runId = await journalRun(testDir, filePath)
+			await fs.appendFile(filePath, 'export const edited = true\n')
+
+			const warnSpy = vi.spyOn(console, 'warn')
+			try {
+				expect(await undoRun(runId, testDir)).toEqual({
+					runId,
+					restoredFiles: [],
+					skippedFiles: [],
+					modifiedFiles: [filePath],
+					exitCode: 1
+				})
+				expect(warnSpy).toHaveBeenCalledWith(`  - ${filePath}`)
+			} finally {
+				warnSpy.mockRestore()
+			}
+
+			expect(await fs.readFile(filePath, 'utf-8')).toBe(
+				`${updatedText}export const edited = true\n`
+			)
+			expect((await readJournal(testDir, runId))?.runId).toBe(runId)
+		})
+
+		it('should fail without exiting when there is no run to undo', async (): Promise<void> => {
+			const testDir = await fs.mkdtemp(tmpDir)
+			const logger = { ...consoleLogger, error: vi.fn() }
+
+			expect(await undoRun(undefined, testDir, logger)).toEqual({
+				runId: undefined,
+				restoredFiles: [],
+				skippedFiles: [],
+				modifiedFiles: [],
+				exitCode: 1
+			})
+			expect(logger.error).toHaveBeenCalledWith(
+				`No runs to undo found in "${testDir}"`
+			)
+		})
+	})
+})
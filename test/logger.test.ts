@@ -0,0 +1,60 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createConsoleLogger } from '../src/logger'
+
+describe.concurrent('createConsoleLogger', (): void => {
+	it('should log info, warnings and errors but not debug messages by default', (): void => {
+		const debugSpy = vi
+			.spyOn(console, 'debug')
+			.mockImplementation((): void => {})
+		const infoSpy = vi.spyOn(console, 'info').mockImplementation((): void => {})
+		const errorSpy = vi
+			.spyOn(console, 'error')
+			.mockImplementation((): void => {})
+
+		try {
+			const logger = createConsoleLogger()
+			logger.debug('debug message')
+			logger.info('info message')
+			logger.error('error message')
+
+			expect(debugSpy).not.toHaveBeenCalledWith('debug message')
+			expect(infoSpy).toHaveBeenCalledWith('info message')
+			expect(errorSpy).toHaveBeenCalledWith('error message')
+		} finally {
+			debugSpy.mockRestore()
+			infoSpy.mockRestore()
+			errorSpy.mockRestore()
+		}
+	})
+
+	it('should only log messages of the given level and above', (): void => {
+		const infoSpy = vi.spyOn(console, 'info').mockImplementation((): void => {})
+		const warnSpy = vi.spyOn(console, 'warn').mockImplementation((): void => {})
+
+		try {
+			const logger = createConsoleLogger('warn')
+			logger.info('quiet info message')
+			logger.warn('quiet warn message')
+
+			expect(infoSpy).not.toHaveBeenCalledWith('quiet info message')
+			expect(warnSpy).toHaveBeenCalledWith('quiet warn message')
+		} finally {
+			infoSpy.mockRestore()
+			warnSpy.mockRestore()
+		}
+	})
+
+	it('should log nothing when silent', (): void => {
+		const errorSpy = vi
+			.spyOn(console, 'error')
+			.mockImplementation((): void => {})
+
+		try {
+			createConsoleLogger('silent').error('silent error message')
+
+			expect(errorSpy).not.toHaveBeenCalledWith('silent error message')
+		} finally {
+			errorSpy.mockRestore()
+		}
+	})
+})
@@ -0,0 +1,81 @@
+import crypto from 'node:crypto'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { describe, expect, it } from 'vitest'
+import {
+	getCommonDirectory,
+	readPathList,
+	resolveInputPaths
+} from '../src/paths'
+
+describe.concurrent('paths', (): void => {
+	// Use RUNNER_TEMP if available to avoid access errors in GHA
+	const tmpDir = process.env.RUNNER_TEMP || os.tmpdir()
+
+	describe('readPathList', (): void => {
+		it('should read newline-separated paths', async (): Promise<void> => {
+			const testDir = await fs.mkdtemp(tmpDir)
+			const listPath = path.join(testDir, `${crypto.randomUUID()}.txt`)
+			await fs.writeFile(listPath, 'src/a.ts\r\nsrc/b.ts\n\n')
+
+			expect(await readPathList(listPath)).toEqual(['src/a.ts', 'src/b.ts'])
+		})
+
+		it('should read NUL-separated paths', async (): Promise<void> => {
+			const testDir = await fs.mkdtemp(tmpDir)
+			const listPath = path.join(testDir, `${crypto.randomUUID()}.txt`)
+			await fs.writeFile(listPath, 'src/a b.ts\0src/new\nline.ts\0')
+
+			expect(await readPathList(listPath)).toEqual([
+				'src/a b.ts',
+				'src/new\nline.ts'
+			])
+		})
+	})
+
+	describe('resolveInputPaths', (): void => {
+		it('should fall back to the default path without paths', async (): Promise<void> => {
+			expect(await resolveInputPaths(undefined, undefined)).toEqual([
+				path.resolve('.')
+			])
+		})
+
+		it('should not fall back to the default path for an empty list', async (): Promise<void> => {
+			const testDir = await fs.mkdtemp(tmpDir)
+			const listPath = path.join(testDir, `${crypto.randomUUID()}.txt`)
+			await fs.writeFile(listPath, '')
+
+			expect(await resolveInputPaths(undefined, listPath)).toEqual([])
+		})
+
+		it('should combine and deduplicate the paths', async (): Promise<void> => {
+			const testDir = await fs.mkdtemp(tmpDir)
+			const listPath = path.join(testDir, `${crypto.randomUUID()}.txt`)
+			await fs.writeFile(listPath, 'src\ntest\n')
+
+			expect(await resolveInputPaths(['src', 'bin.ts'], listPath)).toEqual([
+				path.resolve('src'),
+				path.resolve('bin.ts'),
+				path.resolve('test')
+			])
+		})
+	})
+
+	describe('getCommonDirectory', (): void => {
+		it('should find the deepest directory containing all directories', (): void => {
+			expect(
+				getCommonDirectory(['/repo/src/api', '/repo/src/utils', '/repo/src'])
+			).toBe('/repo/src')
+			expect(getCommonDirectory(['/repo/src', '/repo/srcs'])).toBe('/repo')
+			expect(getCommonDirectory(['/repo/src'])).toBe('/repo/src')
+			expect(getCommonDirectory(['/', '/repo/src'])).toBe('/')
+		})
+
+		it('should reject directories that only share the filesystem root', (): void => {
+			expect((): string => getCommonDirectory(['/repo/src', '/other'])).toThrow(
+				'The paths only share the filesystem root "/"'
+			)
+		})
+	})
+})
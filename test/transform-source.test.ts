@@ -0,0 +1,108 @@
+import crypto from 'node:crypto'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { Project } from 'ts-morph'
+import { describe, expect, it } from 'vitest'
+import {
+	transformSource,
+	transformSourceInProject
+} from '../src/transform-source'
+
+describe.concurrent('transform-source', (): void => {
+	// Use RUNNER_TEMP if available to avoid access errors in GHA
+	const tmpDir = process.env.RUNNER_TEMP || os.tmpdir()
+
+	describe('transformSource', (): void => {
+		it('should return the annotated code and the added return types', (): void => {
+			const result = transformSource(
+				"function greet(name: string) {\n  return 'Hello, ' + name\n}\n"
+			)
+
+			expect(result.text).toBe(
+				"function greet(name: string): string {\n  return 'Hello, ' + name\n}\n"
+			)
+			expect(result.annotations).toEqual([
+				{
+					filePath: '/source.ts',
+					line: 1,
+					column: 1,
+					name: 'greet',
+					returnType: 'string'
+				}
+			])
+		})
+
+		it('should apply the options and report the skipped functions', (): void => {
+			const result = transformSource(
+				'export function getValue() {\n  return 1\n}\n',
+				{ fileName: 'value.ts', ignoreFunctions: ['getValue'] }
+			)
+
+			expect(result.text).toBe('export function getValue() {\n  return 1\n}\n')
+			expect(result.skippedFunctions).toEqual([
+				expect.objectContaining({
+					name: 'getValue',
+					reason: 'Ignored by the ignoreFunctions option'
+				})
+			])
+		})
+
+		it('should not touch the filesystem', async (): Promise<void> => {
+			const testDir = await fs.mkdtemp(tmpDir)
+			const fileName = path.join(testDir, `${crypto.randomUUID()}.ts`)
+
+			const result = transformSource('export const getValue = () => 1\n', {
+				fileName
+			})
+
+			expect(result.text).toBe('export const getValue = (): number => 1\n')
+			expect(await fs.readdir(testDir)).toEqual([])
+		})
+	})
+
+	describe('transformSourceInProject', (): void => {
+		it('should resolve types in the Project and restore its source file', (): void => {
+			const project = new Project({ useInMemoryFileSystem: true })
+			project.createSourceFile(
+				'user.ts',
+				"export type User = { name: string }\nexport function loadUser(): User {\n  return { name: 'Ada' }\n}\n"
+			)
+			const existingText = 'export const existing = true\n'
+			project.createSourceFile('service.ts', existingText)
+
+			const result = transformSourceInProject(
+				project,
+				"import { loadUser } from './user'\nexport const getUser = () => loadUser()\n",
+				{ fileName: 'service.ts' }
+			)
+
+			expect(result.text).toBe(
+				"import { loadUser, User } from './user'\nexport const getUser = (): User => loadUser()\n"
+			)
+			expect(project.getSourceFileOrThrow('service.ts').getFullText()).toBe(
+				existingText
+			)
+		})
+
+		it('should leave functions unannotated when their types cannot be imported', (): void => {
+			const project = new Project({ useInMemoryFileSystem: true })
+			project.createSourceFile(
+				'/node_modules/lib/dist/thing.d.ts',
+				'export interface Thing { a: number }\nexport declare function makeThing(): Thing\n'
+			)
+			project.createSourceFile(
+				'/node_modules/lib/index.d.ts',
+				"export { makeThing } from './dist/thing'\n"
+			)
+			const code =
+				"import { makeThing } from 'lib'\nexport const getThing = () => makeThing()\n"
+
+			const result = transformSourceInProject(project, code, {
+				fileName: '/src/service.ts'
+			})
+
+			expect(result.text).toBe(code)
+		})
+	})
+})
@@ -0,0 +1,287 @@
+import { spawn } from 'node:child_process'
+import fs from 'node:fs/promises'
+import { createRequire } from 'node:module'
+import os from 'node:os'
+import path from 'node:path'
+import { setTimeout as wait } from 'node:timers/promises'
+import type { ts } from 'ts-morph'
+import { describe, expect, it } from 'vitest'
+
+type TsserverClient = {
+	request: <T>(command: string, args: object) => Promise<T>
+	close: () => void
+}
+
+/**
+ * Starts a tsserver that talks JSON over stdio, with the given global plugin.
+ * @param pluginName - The name of the plugin.
+ * @param probeLocation - The directory whose node_modules the plugin is loaded from.
+ * @returns A client that sends requests and resolves to the body of their responses.
+ */
+function startTsserver(
+	pluginName: string,
+	probeLocation: string
+): TsserverClient {
+	const require = createRequire(import.meta.url)
+	const tsserver = spawn(
+		process.execPath,
+		[
+			require.resolve('typescript/lib/tsserver.js'),
+			'--globalPlugins',
+			pluginName,
+			'--pluginProbeLocations',
+			probeLocation,
+			'--disableAutomaticTypingAcquisition'
+		],
+		{ stdio: ['pipe', 'pipe', 'inherit'] }
+	)
+
+	const pending = new Map<
+		number,
+		(response: ts.server.protocol.Response) => void
+	>()
+	let seq = 0
+	let buffer = Buffer.alloc(0)
+
+	// Messages are framed with a Content-Length header, which counts bytes
+	tsserver.stdout.on('data', (chunk: Buffer): void => {
+		buffer = Buffer.concat([buffer, chunk])
+		while (true) {
+			const headerEnd = buffer.indexOf('\r\n\r\n')
+			const length = Number(
+				/Content-Length: (\d+)/.exec(
+					buffer.subarray(0, headerEnd).toString()
+				)?.[1]
+			)
+			if (headerEnd === -1 || buffer.length < headerEnd + 4 + length) {
+				return
+			}
+
+			const message = JSON.parse(
+				buffer.subarray(headerEnd + 4, headerEnd + 4 + length).toString()
+			)
+			buffer = buffer.subarray(headerEnd + 4 + length)
+			if (message.type === 'response') {
+				pending.get(message.request_seq)?.(message)
+				pending.delete(message.request_seq)
+			}
+		}
+	})
+
+	return {
+		request: async <T>(command: string, args: object): Promise<T> => {
+			seq++
+			const response = await new Promise<ts.server.protocol.Response>(
+				(resolve): void => {
+					pending.set(seq, resolve)
+					tsserver.stdin.write(
+						`${JSON.stringify({ seq, type: 'request', command, arguments: args })}\n`
+					)
+				}
+			)
+			if (!response.success) {
+				throw new Error(`${command} failed: ${response.message}`)
+			}
+			return response.body
+		},
+		close: (): void => {
+			tsserver.kill()
+		}
+	}
+}
+
+/**
+ * Applies the text changes of a refactor to a text.
+ * @param text - The text.
+ * @param textChanges - The changes, with one-based lines and offsets.
+ * @returns The changed text.
+ */
+function applyTextChanges(
+	text: string,
+	textChanges: ts.server.protocol.CodeEdit[]
+): string {
+	const lineStarts = [0]
+	for (let index = text.indexOf('\n'); index !== -1; ) {
+		lineStarts.push(index + 1)
+		index = text.indexOf('\n', index + 1)
+	}
+	const getPosition = ({ line, offset }: ts.server.protocol.Location): number =>
+		(lineStarts[line - 1] ?? 0) + offset - 1
+
+	return textChanges
+		.toSorted((a, b): number => getPosition(b.start) - getPosition(a.start))
+		.reduce(
+			(changedText, { start, end, newText }): string =>
+				changedText.slice(0, getPosition(start)) +
+				newText +
+				changedText.slice(getPosition(end)),
+			text
+		)
+}
+
+describe('tsserver-plugin', (): void => {
+	// Use RUNNER_TEMP if available to avoid access errors in GHA
+	const tmpDir = process.env.RUNNER_TEMP || os.tmpdir()
+
+	it('should add return types with the refactors of a local tsserver', async (): Promise<void> => {
+		const testDir = await fs.mkdtemp(tmpDir)
+		const pluginName = 'add-function-return-types-tsserver-plugin'
+
+		// tsserver requires the plugin from node_modules, so it is linked to the TypeScript sources through tsx
+		const require = createRequire(import.meta.url)
+		const pluginDir = path.join(testDir, 'node_modules', pluginName)
+		await fs.mkdir(pluginDir, { recursive: true })
+		await fs.writeFile(
+			path.join(pluginDir, 'index.js'),
+			[
+				`require(${JSON.stringify(require.resolve('tsx/cjs/api'))}).register()`,
+				`require(${JSON.stringify(require.resolve('tsx/esm/api'))}).register()`,
+				`module.exports = require(${JSON.stringify(path.resolve(__dirname, '../src/tsserver-plugin.cts'))})`
+			].join('\n')
+		)
+
+		await fs.writeFile(
+			path.join(testDir, 'tsconfig.json'),
+			JSON.stringify({
+				compilerOptions: { strict: true, module: 'nodenext' },
+				include: ['*.ts']
+			})
+		)
+		await fs.writeFile(
+			path.join(testDir, 'add-function-return-types.config.json'),
+			JSON.stringify({ ignoreFunctions: ['getIgnored'], ignoreAny: true })
+		)
+		await fs.writeFile(
+			path.join(testDir, 'id.ts'),
+			'export type Id = { value: number }\n\nexport function createId(): Id {\n  return { value: 1 }\n}\n'
+		)
+		const filePath = path.join(testDir, 'main.ts')
+		const sourceCode = `import { createId } from './id.js'
+
+export function getId() {
+  return createId()
+}
+
+export function getIgnored() {
+  return 1
+}
+
+export const getName = () => 'name'
+`
+		await fs.writeFile(filePath, sourceCode)
+		const ignoredFilePath = path.join(testDir, 'ignored.ts')
+		await fs.writeFile(
+			ignoredFilePath,
+			'export function getIgnored() {\n  return 1\n}\n\nexport function getAny(value: string) {\n  return JSON.parse(value)\n}\n'
+		)
+
+		const tsserver = startTsserver(pluginName, testDir)
+		try {
+			await tsserver.request('open', { file: filePath })
+
+			// The plugin is loaded in the background, so its refactors show up after a while
+			const location = { file: filePath, line: 3, offset: 17 }
+			let refactors: ts.server.protocol.ApplicableRefactorInfo[] = []
+			for (let attempt = 0; attempt < 100; attempt++) {
+				refactors = await tsserver.request('getApplicableRefactors', location)
+				if (
+					refactors.some(
+						({ name }): boolean => name === 'add-function-return-types'
+					)
+				) {
+					break
+				}
+				await wait(200)
+			}
+
+			expect(refactors).toContainEqual({
+				name: 'add-function-return-types',
+				description: 'Add explicit return types',
+				actions: [
+					expect.objectContaining({ name: 'add-explicit-return-type' }),
+					expect.objectContaining({ name: 'add-all-missing-return-types' })
+				]
+			})
+
+			// Functions the options skip are not offered, nor is the file action if they are all skipped
+			expect(
+				await tsserver.request('getApplicableRefactors', {
+					file: filePath,
+					line: 7,
+					offset: 17
+				})
+			).toContainEqual({
+				name: 'add-function-return-types',
+				description: 'Add explicit return types',
+				actions: [
+					expect.objectContaining({ name: 'add-all-missing-return-types' })
+				]
+			})
+			await tsserver.request('open', { file: ignoredFilePath })
+			for (const line of [1, 5]) {
+				expect(
+					await tsserver.request('getApplicableRefactors', {
+						file: ignoredFilePath,
+						line,
+						offset: 17
+					})
+				).not.toContainEqual(
+					expect.objectContaining({ name: 'add-function-return-types' })
+				)
+			}
+
+			// The functions are decided on again once the code changes
+			await tsserver.request('change', {
+				file: ignoredFilePath,
+				line: 6,
+				offset: 10,
+				endLine: 6,
+				endOffset: 27,
+				insertString: '1'
+			})
+			expect(
+				await tsserver.request('getApplicableRefactors', {
+					file: ignoredFilePath,
+					line: 5,
+					offset: 17
+				})
+			).toContainEqual(
+				expect.objectContaining({ name: 'add-function-return-types' })
+			)
+
+			const getEditedText = async (action: string): Promise<string> => {
+				const { edits } =
+					await tsserver.request<ts.server.protocol.RefactorEditInfo>(
+						'getEditsForRefactor',
+						{
+							...location,
+							refactor: 'add-function-return-types',
+							action
+						}
+					)
+				return applyTextChanges(
+					sourceCode,
+					edits.flatMap(
+						({ textChanges }): ts.server.protocol.CodeEdit[] => textChanges
+					)
+				)
+			}
+
+			const functionText = await getEditedText('add-explicit-return-type')
+			expect(functionText).toContain('export function getId(): Id {')
+			expect(functionText).toContain("import { createId, Id } from './id.js'")
+			expect(functionText).toContain("export const getName = () => 'name'")
+
+			// The file action honors the configuration file of the project
+			const fileText = await getEditedText('add-all-missing-return-types')
+			expect(fileText).toContain('export function getId(): Id {')
+			expect(fileText).toContain('export function getIgnored() {')
+			expect(fileText).toContain("export const getName = (): string => 'name'")
+		} finally {
+			tsserver.close()
+		}
+
+		// Refactors only return edits, so the file is left as it is
+		expect(await fs.readFile(filePath, 'utf-8')).toBe(sourceCode)
+	})
+})
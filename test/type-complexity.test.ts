@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import {
+	getComplexityBudgetViolation,
+	measureTypeComplexity
+} from '../src/type-complexity'
+
+describe.concurrent('type-complexity', (): void => {
+	describe('measureTypeComplexity', (): void => {
+		it('should measure the length, largest union and nesting depth', (): void => {
+			expect(
+				measureTypeComplexity(
+					"Promise<{ id: string; role: 'admin' | 'user' | 'guest'; }[]>"
+				)
+			).toEqual({ length: 60, unionMembers: 3, depth: 3 })
+		})
+
+		it('should not count unions and intersections as nesting', (): void => {
+			expect(
+				measureTypeComplexity('(string | number) & { id: string; }')
+			).toEqual({ length: 35, unionMembers: 2, depth: 1 })
+			expect(measureTypeComplexity('string')).toEqual({
+				length: 6,
+				unionMembers: 0,
+				depth: 0
+			})
+		})
+	})
+
+	describe('getComplexityBudgetViolation', (): void => {
+		const budget = {
+			maxTypeLength: undefined,
+			maxUnionMembers: undefined,
+			maxTypeDepth: undefined
+		}
+
+		it('should describe the first exceeded limit', (): void => {
+			const typeText = "{ a: { b: 'x' | 'y' | 'z'; }; }"
+
+			expect(
+				getComplexityBudgetViolation(typeText, { ...budget, maxTypeLength: 10 })
+			).toBe('31 characters, max 10')
+			expect(
+				getComplexityBudgetViolation(typeText, {
+					...budget,
+					maxUnionMembers: 2
+				})
+			).toBe('3 union members, max 2')
+			expect(
+				getComplexityBudgetViolation(typeText, { ...budget, maxTypeDepth: 1 })
+			).toBe('nesting depth 2, max 1')
+		})
+
+		it('should return undefined when the type is within the budget', (): void => {
+			expect(getComplexityBudgetViolation('string[]', budget)).toBeUndefined()
+			expect(
+				getComplexityBudgetViolation('string[]', {
+					maxTypeLength: 8,
+					maxUnionMembers: 1,
+					maxTypeDepth: 1
+				})
+			).toBeUndefined()
+		})
+	})
+})
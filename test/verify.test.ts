@@ -0,0 +1,57 @@
+import { Project, type SourceFile } from 'ts-morph'
+import { describe, expect, it } from 'vitest'
+import {
+	findBreakingFunctions,
+	getErrorMessages,
+	getNewErrors
+} from '../src/verify'
+
+describe.concurrent('verify', (): void => {
+	const createSourceFile = (text: string): SourceFile =>
+		new Project({ useInMemoryFileSystem: true }).createSourceFile(
+			'file.ts',
+			text
+		)
+
+	it('should only report errors that occur more often than before', (): void => {
+		const sourceFile = createSourceFile('const a: string = 1\n')
+		const originalErrors = getErrorMessages(sourceFile)
+		expect(originalErrors).toEqual([
+			"TS2322: Type 'number' is not assignable to type 'string'."
+		])
+
+		sourceFile.addStatements('const b: string = 2')
+		expect(getNewErrors(sourceFile, originalErrors)).toHaveLength(1)
+	})
+
+	it('should attribute errors to the innermost annotated function', (): void => {
+		const sourceFile = createSourceFile(
+			'function outer(): number {\n  const inner = (): string => 1\n  return 1\n}\n'
+		)
+		const errors = getNewErrors(sourceFile, [])
+
+		expect(findBreakingFunctions(sourceFile, new Set([0, 1]), errors)).toEqual(
+			new Map([
+				[1, ["TS2322: Type 'number' is not assignable to type 'string'."]]
+			])
+		)
+	})
+
+	it('should attribute errors outside functions to all annotated functions', (): void => {
+		const sourceFile = createSourceFile(
+			"import { missing } from './missing'\n\nfunction a(): number {\n  return 1\n}\n"
+		)
+		const errors = getNewErrors(sourceFile, [])
+
+		expect(findBreakingFunctions(sourceFile, new Set([0]), errors)).toEqual(
+			new Map([
+				[
+					0,
+					[
+						"TS2307: Cannot find module './missing' or its corresponding type declarations."
+					]
+				]
+			])
+		)
+	})
+})
@@ -0,0 +1,105 @@
+import crypto from 'node:crypto'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { setTimeout as wait } from 'node:timers/promises'
+import { Project } from 'ts-morph'
+import { describe, expect, it } from 'vitest'
+import { consoleLogger } from '../src/logger'
+import { watchDebounceMs, watchFiles } from '../src/watch'
+
+describe.concurrent('watch', (): void => {
+	// Use RUNNER_TEMP if available to avoid access errors in GHA
+	const tmpDir = process.env.RUNNER_TEMP || os.tmpdir()
+
+	it('should process changed and new files, but not its own writes', async (): Promise<void> => {
+		const testDir = await fs.mkdtemp(tmpDir)
+		const filePath = path.join(testDir, `${crypto.randomUUID()}.ts`)
+		const newFilePath = path.join(testDir, `${crypto.randomUUID()}.ts`)
+		await fs.writeFile(filePath, 'export const a = 1\n')
+
+		const project = new Project()
+		project.addSourceFileAtPath(filePath)
+		const processedFiles: string[] = []
+		const controller = new AbortController()
+
+		const watching = watchFiles(
+			project,
+			{
+				rootPath: testDir,
+				getDirectories: async (): Promise<string[]> => [testDir],
+				getFiles: async (): Promise<string[]> => {
+					const entries = await fs.readdir(testDir)
+					return entries.map((entry): string => path.join(testDir, entry))
+				},
+				processFile: async (file): Promise<string> => {
+					processedFiles.push(file)
+					const sourceFile =
+						project.getSourceFile(file) ?? project.addSourceFileAtPath(file)
+					sourceFile.addStatements('// processed')
+					await sourceFile.save()
+					return sourceFile.getFullText()
+				},
+				logger: consoleLogger
+			},
+			controller.signal
+		)
+
+		// Let the watcher start before changing files
+		await wait(watchDebounceMs)
+		await fs.writeFile(filePath, 'export const a = 2\n')
+		await fs.writeFile(newFilePath, 'export const b = 1\n')
+		await wait(watchDebounceMs * 10)
+
+		controller.abort()
+		await watching
+
+		expect(processedFiles.toSorted()).toEqual(
+			[filePath, newFilePath].toSorted()
+		)
+		expect(await fs.readFile(filePath, 'utf-8')).toBe(
+			'export const a = 2\n// processed\n'
+		)
+	})
+
+	it('should process files saved with the text they have in memory, but not watch ignored directories', async (): Promise<void> => {
+		const testDir = await fs.mkdtemp(tmpDir)
+		const filePath = path.join(testDir, 'a.ts')
+		const ignoredFilePath = path.join(testDir, 'node_modules', 'b.ts')
+		await fs.mkdir(path.dirname(ignoredFilePath))
+		await fs.writeFile(filePath, 'export const a = 1\n')
+		await fs.writeFile(ignoredFilePath, 'export const b = 1\n')
+
+		// As in dry run mode, the file is changed in memory but never saved
+		const project = new Project()
+		project.addSourceFileAtPath(filePath).addStatements('// processed')
+		const changedFiles: string[] = []
+		const controller = new AbortController()
+
+		const watching = watchFiles(
+			project,
+			{
+				rootPath: testDir,
+				getDirectories: async (): Promise<string[]> => [testDir],
+				getFiles: async (): Promise<string[]> => [filePath, ignoredFilePath],
+				processFile: async (file): Promise<undefined> => {
+					changedFiles.push(file)
+					return undefined
+				},
+				logger: consoleLogger
+			},
+			controller.signal
+		)
+
+		await wait(watchDebounceMs)
+		await fs.writeFile(filePath, 'export const a = 1\n// processed\n')
+		await fs.writeFile(ignoredFilePath, 'export const b = 2\n')
+		await wait(watchDebounceMs * 10)
+
+		controller.abort()
+		await watching
+
+		expect(changedFiles).toEqual([filePath])
+		await fs.rm(testDir, { recursive: true, force: true })
+	})
+})